@@ -1,35 +1,50 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Database } from 'lucide-react';
 import { ConnectionForm } from './components/ConnectionForm';
 import { Sidebar } from './components/Sidebar';
 import { TableView } from './components/TableView';
 import { ExportView } from './components/ExportView';
 import { ImportView } from './components/ImportView';
+import { FunctionsView } from './components/FunctionsView';
+import { SQLConsoleView } from './components/SQLConsoleView';
+import { SettingsView } from './components/SettingsView';
 import { useSupabase } from './hooks/useSupabase';
-import { DatabaseConnection, TableInfo, TableData } from './types/database';
+import { qualifyTableName } from './utils/tableName';
+import { DatabaseConnection, TableInfo, TableData, RowKey, FunctionInfo, AppView } from './types/database';
 
 function App() {
   const {
     client,
+    connection,
     isConnected,
     error,
     loading,
     connect,
     disconnect,
+    getSchemas,
     getTables,
     getColumns,
+    getFunctions,
+    callFunction,
     getTableData,
+    getAllRows,
     insertRow,
     updateRow,
     deleteRow,
-    executeSQL
+    executeSQL,
+    sqlStatus,
+    configureSQLProvider,
+    detectSQLProvider
   } = useSupabase();
 
-  const [tables, setTables] = useState<string[]>([]);
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [schemas, setSchemas] = useState<string[]>([]);
+  const [activeSchema, setActiveSchema] = useState<string | null>(null);
+  const [functions, setFunctions] = useState<FunctionInfo[]>([]);
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
   const [tableData, setTableData] = useState<TableData | null>(null);
   const [tableLoading, setTableLoading] = useState(false);
-  const [currentView, setCurrentView] = useState<'tables' | 'export' | 'import'>('tables');
+  const [currentView, setCurrentView] = useState<AppView>('tables');
   const [appError, setAppError] = useState<string | null>(null);
 
   const handleConnect = async (connectionData: DatabaseConnection) => {
@@ -41,16 +56,20 @@ function App() {
     }
   };
 
-  const loadTables = async () => {
+  const loadTables = useCallback(async () => {
     try {
       setAppError(null);
-      const tablesData = await getTables();
-      setTables(tablesData.map(t => t.table_name));
+      // Tables are discovered per schema, so the schema list has to be known first
+      const schemaNames = await getSchemas();
+      setSchemas(schemaNames);
+      setTables(await getTables());
+      setFunctions(await getFunctions());
+      await detectSQLProvider();
     } catch (error) {
       console.error('Error loading tables:', error);
       setAppError('Failed to load tables: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
-  };
+  }, [getSchemas, getTables, getFunctions, detectSQLProvider]);
 
   const loadTableData = async (tableName: string) => {
     setTableLoading(true);
@@ -78,24 +97,29 @@ function App() {
     }
   };
 
-  const handleInsertRow = async (data: Record<string, any>) => {
+  const handleInsertRow = async (data: Record<string, unknown>) => {
     if (!selectedTable) return;
     await insertRow(selectedTable, data);
   };
 
-  const handleUpdateRow = async (data: Record<string, any>, primaryKey: string, keyValue: any) => {
+  const handleUpdateRow = async (data: Record<string, unknown>, key: RowKey) => {
     if (!selectedTable) return;
-    await updateRow(selectedTable, data, primaryKey, keyValue);
+    await updateRow(selectedTable, data, key);
   };
 
-  const handleDeleteRow = async (primaryKey: string, keyValue: any) => {
+  const handleDeleteRow = async (key: RowKey) => {
     if (!selectedTable) return;
-    await deleteRow(selectedTable, primaryKey, keyValue);
+    await deleteRow(selectedTable, key);
   };
 
+  const selectedTableInfo = tables.find(t => qualifyTableName(t.table_schema, t.table_name) === selectedTable);
+
   const handleDisconnect = () => {
     disconnect();
     setTables([]);
+    setSchemas([]);
+    setActiveSchema(null);
+    setFunctions([]);
     setSelectedTable(null);
     setTableData(null);
     setCurrentView('tables');
@@ -106,7 +130,7 @@ function App() {
     if (isConnected) {
       loadTables();
     }
-  }, [isConnected]);
+  }, [isConnected, loadTables]);
 
   if (!isConnected) {
     return (
@@ -123,6 +147,9 @@ function App() {
       <Sidebar
         connection={{ url: '', apiKey: '' }}
         tables={tables}
+        schemas={schemas}
+        activeSchema={activeSchema}
+        onSchemaChange={setActiveSchema}
         selectedTable={selectedTable}
         onTableSelect={handleTableSelect}
         onExportClick={() => setCurrentView('export')}
@@ -150,6 +177,7 @@ function App() {
                 onDeleteRow={handleDeleteRow}
                 onRefresh={handleRefresh}
                 loading={tableLoading}
+                readOnly={selectedTableInfo?.table_type === 'VIEW'}
               />
             </div>
           )}
@@ -175,18 +203,55 @@ function App() {
             </div>
           )}
           
+          {currentView === 'functions' && (
+            <FunctionsView
+              functions={functions.filter(fn => !activeSchema || fn.function_schema === activeSchema)}
+              onCallFunction={callFunction}
+            />
+          )}
+
           {currentView === 'export' && (
             <ExportView 
-              tables={tables} 
+              tables={tables
+                .filter(t => !activeSchema || t.table_schema === activeSchema)
+                .map(t => qualifyTableName(t.table_schema, t.table_name))}
               client={client}
               getColumns={getColumns}
+              getAllRows={getAllRows}
+              executeSQL={executeSQL}
+              sqlAvailable={sqlStatus.available}
+              sourceUrl={connection?.url || ''}
             />
           )}
           
           {currentView === 'import' && (
             <ImportView 
               client={client}
+              tables={tables
+                .filter(t => t.table_type !== 'VIEW')
+                .map(t => qualifyTableName(t.table_schema, t.table_name))}
+              executeSQL={executeSQL}
+              sqlAvailable={sqlStatus.available}
+              getColumns={getColumns}
+              getAllRows={getAllRows}
+              targetUrl={connection?.url || ''}
+            />
+          )}
+
+          {currentView === 'sql' && (
+            <SQLConsoleView
+              projectUrl={connection?.url || ''}
+              sqlAvailable={sqlStatus.available}
               executeSQL={executeSQL}
+              onOpenSettings={() => setCurrentView('settings')}
+            />
+          )}
+
+          {currentView === 'settings' && (
+            <SettingsView
+              projectUrl={connection?.url || ''}
+              sqlStatus={sqlStatus}
+              onConfigureSQLProvider={configureSQLProvider}
             />
           )}
         </div>
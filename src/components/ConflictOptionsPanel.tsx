@@ -0,0 +1,80 @@
+import React from 'react';
+import { ColumnInfo, ConflictStrategy, TableImportOptions } from '../types/database';
+import { getPrimaryKeyColumns } from '../utils/openapi';
+import { DEFAULT_TABLE_OPTIONS } from '../utils/batchInsert';
+
+interface ConflictOptionsPanelProps {
+  tables: string[];
+  // Target columns per table; null when the table does not exist in the database
+  columns: Record<string, ColumnInfo[] | null>;
+  options: Record<string, TableImportOptions>;
+  onChange: (table: string, options: TableImportOptions) => void;
+}
+
+const STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  fail: 'Fail on duplicates',
+  ignore: 'Skip duplicates',
+  upsert: 'Upsert (update existing)',
+  mirror: 'Mirror (upsert + delete missing)'
+};
+
+export const ConflictOptionsPanel: React.FC<ConflictOptionsPanelProps> = ({ tables, columns, options, onChange }) => {
+  return (
+    <div className="space-y-3">
+      {tables.map((table) => {
+        const tableOptions = options[table] || DEFAULT_TABLE_OPTIONS;
+        const tableColumns = columns[table];
+        const primaryKey = tableColumns ? getPrimaryKeyColumns(tableColumns) : [];
+
+        return (
+          <div key={table} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-sm font-medium text-gray-900 truncate">{table}</span>
+              {tableColumns === null && (
+                <span className="text-xs text-red-600">Not found in database</span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={tableOptions.strategy}
+                onChange={(e) => onChange(table, { ...tableOptions, strategy: e.target.value as ConflictStrategy })}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {(Object.keys(STRATEGY_LABELS) as ConflictStrategy[]).map((strategy) => (
+                  <option key={strategy} value={strategy}>{STRATEGY_LABELS[strategy]}</option>
+                ))}
+              </select>
+              {tableOptions.strategy !== 'fail' && (
+                <select
+                  value={tableOptions.conflictColumns[0] || ''}
+                  onChange={(e) => onChange(table, {
+                    ...tableOptions,
+                    conflictColumns: e.target.value ? [e.target.value] : []
+                  })}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                  title="Column(s) that identify an existing row"
+                >
+                  <option value="">
+                    Primary key{primaryKey.length > 0 ? ` (${primaryKey.join(', ')})` : ''}
+                  </option>
+                  {(tableColumns || [])
+                    .filter(col => !col.is_primary_key)
+                    .map(col => (
+                      <option key={col.column_name} value={col.column_name}>
+                        Unique column: {col.column_name}
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+            {tableOptions.strategy === 'mirror' && (
+              <p className="text-xs text-yellow-700 mt-2">
+                Rows in {table} that are not in the file will be deleted. You will be asked to confirm the count first.
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, Download } from 'lucide-react';
+import { DryRunResult, DryRunValueIssue } from '../types/database';
+import { hasDryRunProblems } from '../utils/dryRun';
+import { downloadFile } from '../utils/download';
+
+interface DryRunReportPanelProps {
+  report: DryRunResult;
+}
+
+const IssueList: React.FC<{ label: string; issues: DryRunValueIssue[]; total: number }> = ({ label, issues, total }) => {
+  if (total === 0) return null;
+
+  return (
+    <details className="text-xs mt-1">
+      <summary className="cursor-pointer text-red-600 hover:text-red-700">
+        {label}: {total}
+      </summary>
+      <ul className="mt-1 space-y-1 text-red-600">
+        {issues.slice(0, 20).map((issue, index) => (
+          <li key={index}>• row #{issue.index}, {issue.column}: {issue.message}</li>
+        ))}
+        {total > 20 && <li>• ... and {total - 20} more (see the downloaded report)</li>}
+      </ul>
+    </details>
+  );
+};
+
+export const DryRunReportPanel: React.FC<DryRunReportPanelProps> = ({ report }) => {
+  const problemTables = report.tables.filter(hasDryRunProblems).length;
+
+  const handleDownload = () => {
+    const timestamp = report.createdAt.replace(/[:.]/g, '-');
+    downloadFile(JSON.stringify(report, null, 2), `dry-run-report-${timestamp}.json`, 'application/json');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {problemTables === 0 && report.errors.length === 0 ? (
+            <CheckCircle className="w-5 h-5 text-green-600" />
+          ) : (
+            <AlertCircle className="w-5 h-5 text-yellow-600" />
+          )}
+          <span className="text-sm font-medium text-gray-900">
+            {problemTables === 0
+              ? 'No compatibility problems found'
+              : `${problemTables} table${problemTables !== 1 ? 's' : ''} with problems`}
+          </span>
+        </div>
+        <button
+          onClick={handleDownload}
+          className="flex items-center gap-2 px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          <Download className="w-4 h-4" />
+          Download Report
+        </button>
+      </div>
+
+      {report.tables.map((table) => (
+        <div key={table.table} className="p-3 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-gray-900 truncate">{table.table}</span>
+            <span className="text-xs text-gray-500">{table.rowCount} rows</span>
+          </div>
+          {!table.exists ? (
+            <p className="text-xs text-red-600 mt-1">Table does not exist in the target database</p>
+          ) : (
+            <>
+              {table.unknownColumns.length > 0 && (
+                <p className="text-xs text-red-600 mt-1">
+                  Unknown columns: {table.unknownColumns.join(', ')}
+                </p>
+              )}
+              <IssueList label="Type mismatches" issues={table.typeMismatches} total={table.typeMismatchCount} />
+              <IssueList label="NOT NULL violations" issues={table.notNullViolations} total={table.notNullViolationCount} />
+              {table.keyColumns.length > 0 ? (
+                <p className="text-xs text-gray-600 mt-1">
+                  Rows whose key ({table.keyColumns.join(', ')}) already exists: {table.existingKeyCount}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">No key to check for existing rows</p>
+              )}
+            </>
+          )}
+        </div>
+      ))}
+
+      {report.errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {report.errors.map((error, index) => (
+            <li key={index}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
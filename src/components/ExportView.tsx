@@ -1,23 +1,79 @@
 import React, { useState } from 'react';
-import { Download, FileText, Database, AlertCircle } from 'lucide-react';
+import { Download, FileText, Database, AlertCircle, CheckCircle } from 'lucide-react';
 import { SupabaseClient } from '@supabase/supabase-js';
-import { ColumnInfo } from '../types/database';
+import { ColumnInfo, ExportedTable, ExportFormat, FetchAllResult, FetchProgress, SQLResult, TableCatalogInfo } from '../types/database';
+import { quoteIdentifier, quoteTableName } from '../utils/tableName';
+import { getRowColumns, toCSV } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { BundleTableFile, createExportBundle } from '../utils/bundle';
+import { createExportFile } from '../utils/exportFile';
+import { ForeignKeyEdge, getForeignKeyEdges, sortTablesByDependencies } from '../utils/tableOrder';
+import { getSequenceResetSQL } from '../utils/sqlProviders';
+import {
+  DDLOptions,
+  formatSQLValue,
+  generateCreateTable,
+  generateDropTables,
+  generateEnumTypes,
+  generateLateForeignKeys,
+  getSequenceColumns,
+  loadTableCatalog
+} from '../utils/sqlExport';
 
 interface ExportViewProps {
   tables: string[];
   client: SupabaseClient | null;
   getColumns: (tableName: string) => Promise<ColumnInfo[]>;
+  getAllRows: (tableName: string, onProgress?: (progress: FetchProgress) => void) => Promise<FetchAllResult>;
+  executeSQL: (query: string) => Promise<SQLResult>;
+  // Whether executeSQL works; constraints and identity columns in SQL exports are read through it
+  sqlAvailable: boolean;
+  sourceUrl: string;
 }
 
-export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColumns }) => {
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'sql', label: 'SQL' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'tsv', label: 'TSV' }
+];
+
+// What the SQL export needs besides the exported tables
+interface SQLExportContext {
+  // Columns of every exported table, also when the schema is left out; they decide how values are written
+  columns: Record<string, ColumnInfo[] | null>;
+  deferred: ForeignKeyEdge[];
+  catalog: Record<string, TableCatalogInfo>;
+}
+
+// 1 keeps one INSERT per row, which is easiest to edit by hand
+const ROWS_PER_INSERT_OPTIONS = [1, 100, 500, 1000];
+
+interface TableExportStatus extends FetchProgress {
+  status: 'pending' | 'fetching' | 'verified' | 'incomplete' | 'error';
+}
+
+export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColumns, getAllRows, executeSQL, sqlAvailable, sourceUrl }) => {
   const [selectedTables, setSelectedTables] = useState<string[]>([]);
-  const [format, setFormat] = useState<'json' | 'sql'>('json');
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [delimiter, setDelimiter] = useState(',');
+  const [includeHeader, setIncludeHeader] = useState(true);
+  const [asArchive, setAsArchive] = useState(false);
   const [includeSchema, setIncludeSchema] = useState(true);
   const [includeData, setIncludeData] = useState(true);
+  const [ifNotExists, setIfNotExists] = useState(false);
+  const [rowsPerInsert, setRowsPerInsert] = useState(1);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
   const [downloadFilename, setDownloadFilename] = useState<string>('');
+  const [tableProgress, setTableProgress] = useState<Record<string, TableExportStatus>>({});
+
+  const isDelimitedFormat = format === 'csv' || format === 'tsv';
+
+  const updateTableProgress = (table: string, update: Partial<TableExportStatus>) => {
+    setTableProgress(prev => ({ ...prev, [table]: { ...prev[table], ...update } }));
+  };
 
   const handleTableToggle = (table: string) => {
     setSelectedTables(prev => 
@@ -67,58 +123,85 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
       return;
     }
 
+    if (isDelimitedFormat && !includeData) {
+      setError(`${format.toUpperCase()} export contains table data only. Please enable "Include data".`);
+      return;
+    }
+
+    if (isDelimitedFormat && !delimiter) {
+      setError('Please enter a delimiter for the CSV export.');
+      return;
+    }
+
     setLoading(true);
     setError(null);
     setDownloadUrl(null);
     setDownloadFilename('');
+    setTableProgress(selectedTables.reduce((acc, table) => {
+      acc[table] = { fetched: 0, total: null, status: includeData ? 'pending' : 'verified' };
+      return acc;
+    }, {} as Record<string, TableExportStatus>));
     
     try {
-      const exportData: any = {};
-      
+      const exportData: Record<string, ExportedTable> = {};
+      const incompleteTables: string[] = [];
+
+      // Tables are written after the tables they reference, so the file can be loaded top to bottom
+      const tableColumns: Record<string, ColumnInfo[] | null> = {};
       for (const table of selectedTables) {
+        tableColumns[table] = await getTableSchema(table);
+      }
+      const { order, deferred } = sortTablesByDependencies(selectedTables, getForeignKeyEdges(tableColumns));
+
+      // Without catalog access the DDL still has keys, references and enums, but no UNIQUE or CHECK, and NOT NULL only for required columns
+      let catalog: Record<string, TableCatalogInfo> = {};
+      if (format === 'sql' && includeSchema && sqlAvailable) {
+        try {
+          catalog = await loadTableCatalog(executeSQL, order);
+        } catch (catalogErr) {
+          console.warn('Could not read constraints from the catalog:', catalogErr);
+        }
+      }
+      const context: SQLExportContext = { columns: tableColumns, deferred, catalog };
+      
+      for (const table of order) {
         console.log(`Processing table: ${table}`);
-        const tableInfo: any = { name: table };
+        const tableInfo: ExportedTable = {};
         
         if (includeSchema) {
-          try {
-            const schema = await getTableSchema(table);
-            tableInfo.schema = schema;
-            console.log(`Schema for ${table}:`, schema);
-          } catch (schemaErr) {
-            console.error(`Schema error for ${table}:`, schemaErr);
-            tableInfo.schema = [];
-            let errorMsg = schemaErr instanceof Error ? schemaErr.message : 'Unknown schema error';
-            
-            // Special handling for RLS policy errors
-            if (errorMsg.includes('infinite recursion detected in policy')) {
-              errorMsg = `RLS Policy Error: Row Level Security policies prevent schema access. ${errorMsg}`;
-            }
-            
-            tableInfo.schemaError = errorMsg;
-          }
+          tableInfo.schema = tableColumns[table];
         }
         
         if (includeData) {
           try {
             console.log(`Fetching data for table: ${table}`);
-            const { data: rows, error: dataError } = await client.from(table).select('*');
-            if (dataError) {
-              console.error(`Error fetching data for ${table}:`, dataError);
-              tableInfo.data = [];
-              tableInfo.dataError = dataError.message;
-              
-              // Special handling for RLS policy errors
-              if (dataError.code === '42P17') {
-                tableInfo.dataError = `RLS Policy Error: ${dataError.message}. This table has Row Level Security policies that prevent access.`;
-              }
+            updateTableProgress(table, { status: 'fetching' });
+            const { rows, expectedCount, stableOrder } = await getAllRows(table, progress => updateTableProgress(table, progress));
+            tableInfo.data = rows;
+
+            // Never report a truncated table as a complete backup
+            if (expectedCount === null || rows.length !== expectedCount || !stableOrder) {
+              tableInfo.dataError = expectedCount === null
+                ? `Row count could not be verified (${rows.length} rows exported)`
+                : !stableOrder
+                  ? 'Rows could not be verified: the table has no primary key and columns that cannot be ordered, so pages may overlap'
+                  : `Incomplete export: ${rows.length} of ${expectedCount} rows were exported`;
+              incompleteTables.push(table);
+              updateTableProgress(table, { status: 'incomplete' });
             } else {
-              tableInfo.data = rows || [];
-              console.log(`Fetched ${tableInfo.data.length} rows for ${table}`);
+              updateTableProgress(table, { status: 'verified' });
             }
           } catch (dataErr) {
             console.error(`Data fetch error for ${table}:`, dataErr);
             tableInfo.data = [];
             tableInfo.dataError = dataErr instanceof Error ? dataErr.message : 'Unknown data error';
+
+            // Special handling for RLS policy errors
+            if (tableInfo.dataError.includes('infinite recursion detected in policy')) {
+              tableInfo.dataError = `RLS Policy Error: ${tableInfo.dataError}. This table has Row Level Security policies that prevent access.`;
+            }
+            incompleteTables.push(table);
+            updateTableProgress(table, { status: 'error' });
           }
         }
         
@@ -128,13 +211,13 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
       console.log('Export data prepared:', exportData);
 
       // Generate summary of issues
-      const tablesWithErrors = Object.entries(exportData).filter(([_, tableInfo]: [string, any]) => 
+      const tablesWithErrors = Object.entries(exportData).filter(([, tableInfo]) => 
         tableInfo.schemaError || tableInfo.dataError
       );
       
       if (tablesWithErrors.length > 0) {
         console.warn(`Export completed with errors in ${tablesWithErrors.length} tables:`, 
-          tablesWithErrors.map(([tableName, tableInfo]: [string, any]) => ({
+          tablesWithErrors.map(([tableName, tableInfo]) => ({
             table: tableName,
             schemaError: tableInfo.schemaError,
             dataError: tableInfo.dataError
@@ -142,9 +225,37 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
         );
       }
 
+      const date = new Date().toISOString().split('T')[0];
+
+      // Archive export: one file per table plus a manifest with checksums
+      if (asArchive) {
+        const archive = await createExportBundle(generateTableFiles(exportData, context), format, sourceUrl);
+        downloadFile(archive, `supabase-export-${date}.zip`, 'application/zip');
+
+        if (incompleteTables.length > 0) {
+          setError(`Export finished, but ${incompleteTables.length} table(s) are incomplete: ${incompleteTables.join(', ')}. Do not rely on this archive as a full backup.`);
+        }
+        return;
+      }
+
+      // CSV holds a single table, so every table becomes its own file
+      if (isDelimitedFormat) {
+        const files = generateTableFiles(exportData, context);
+        const type = format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+        files.forEach((file, index) => {
+          // Stagger the downloads so browsers do not drop all but the first
+          setTimeout(() => downloadFile(file.content, `supabase-export-${date}-${file.filename}`, type), index * 300);
+        });
+
+        if (incompleteTables.length > 0) {
+          setError(`Export finished, but ${incompleteTables.length} table(s) are incomplete: ${incompleteTables.join(', ')}. Do not rely on these files as a full backup.`);
+        }
+        return;
+      }
+
       const exportContent = format === 'json' 
-        ? JSON.stringify(exportData, null, 2)
-        : generateSQLExport(exportData);
+        ? JSON.stringify(createExportFile(exportData, sourceUrl), null, 2)
+        : generateSQLExport(exportData, context);
 
       console.log('Export content length:', exportContent.length);
       console.log('Export content preview:', exportContent.substring(0, 500));
@@ -199,7 +310,11 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
           }
         }, 100);
         
-        console.log('Export completed successfully');
+        if (incompleteTables.length > 0) {
+          setError(`Export finished, but ${incompleteTables.length} table(s) are incomplete: ${incompleteTables.join(', ')}. Do not rely on this file as a full backup.`);
+        } else {
+          console.log('Export completed successfully');
+        }
       } catch (downloadError) {
         console.error('Error during download process:', downloadError);
         throw new Error('Failed to download file: ' + (downloadError instanceof Error ? downloadError.message : 'Unknown download error'));
@@ -212,13 +327,59 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
     }
   };
 
-  const generateSQLExport = (data: any): string => {
+  // Splits the export into one file per table in the selected format
+  const generateTableFiles = (data: Record<string, ExportedTable>, context: SQLExportContext): BundleTableFile[] => {
+    const separator = format === 'tsv' ? '\t' : delimiter;
+
+    return Object.entries(data).map(([tableName, tableInfo]) => {
+      const rows = tableInfo.data || [];
+      const schema: ColumnInfo[] | null = Array.isArray(tableInfo.schema) && tableInfo.schema.length > 0
+        ? tableInfo.schema
+        : null;
+
+      let content: string;
+      if (format === 'json') {
+        content = JSON.stringify(createExportFile({ [tableName]: tableInfo }, sourceUrl), null, 2);
+      } else if (format === 'sql') {
+        content = generateSQLExport({ [tableName]: tableInfo }, {
+          ...context,
+          deferred: context.deferred.filter(edge => edge.table === tableName && edge.references === tableName)
+        });
+      } else {
+        // Prefer the schema's column order; fall back to the keys found in the rows
+        const columns = schema ? schema.map(col => col.column_name) : getRowColumns(rows);
+        content = toCSV(rows, columns, { delimiter: separator, includeHeader });
+      }
+
+      return {
+        name: tableName,
+        filename: `${tableName}.${format}`,
+        content,
+        rowCount: rows.length,
+        columns: schema
+      };
+    });
+  };
+
+  /**
+   * Values are written as literals of their column's type. `deferred`
+   * references are inserted as NULL and set by UPDATE statements at the end
+   * of the file, once the rows they point to exist.
+   */
+  const generateSQLExport = (data: Record<string, ExportedTable>, { columns, deferred, catalog }: SQLExportContext): string => {
+    const columnTypes: Record<string, Record<string, string>> = Object.fromEntries(
+      Object.entries(columns).map(([tableName, tableColumns]) => [
+        tableName,
+        Object.fromEntries((tableColumns || []).map(col => [col.column_name, col.data_type]))
+      ])
+    );
+
     let sql = '-- Supabase Database Export\n';
     sql += `-- Generated on: ${new Date().toISOString()}\n`;
     sql += `-- Tables exported: ${Object.keys(data).join(', ')}\n`;
     
     // Add summary of issues
-    const tablesWithErrors = Object.entries(data).filter(([_, tableInfo]: [string, any]) => 
+    const tablesWithErrors = Object.entries(data).filter(([, tableInfo]) => 
       tableInfo.schemaError || tableInfo.dataError
     );
     
@@ -228,55 +389,69 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
     }
     
     sql += '\n';
+
+    const ddlOptions: DDLOptions = { ifNotExists, tableOrder: Object.keys(data) };
+    const schemas: Record<string, ColumnInfo[]> = includeSchema
+      ? Object.fromEntries(Object.entries(data).flatMap(([tableName, tableInfo]) =>
+          tableInfo.schema && tableInfo.schema.length > 0 ? [[tableName, tableInfo.schema]] : []
+        ))
+      : {};
+    if (Object.keys(schemas).length > 0) {
+      if (!ifNotExists) sql += generateDropTables(Object.keys(schemas)) + '\n';
+      const types = generateEnumTypes(schemas);
+      if (types) sql += types + '\n';
+    }
     
-    Object.entries(data).forEach(([tableName, tableInfo]: [string, any]) => {
+    Object.entries(data).forEach(([tableName, tableInfo]) => {
       sql += `-- ============================================\n`;
       sql += `-- Table: ${tableName}\n`;
       sql += `-- ============================================\n\n`;
       
-      if (includeSchema && tableInfo.schema && Array.isArray(tableInfo.schema)) {
+      if (schemas[tableName]) {
         sql += `-- Schema for table: ${tableName}\n`;
-        sql += `DROP TABLE IF EXISTS "${tableName}" CASCADE;\n`;
-        sql += `CREATE TABLE "${tableName}" (\n`;
-        
-        const columns = tableInfo.schema.map((col: any) => {
-          let colDef = `  "${col.column_name}" ${col.data_type}`;
-          
-          if (col.character_maximum_length) {
-            colDef += `(${col.character_maximum_length})`;
-          } else if (col.numeric_precision) {
-            colDef += `(${col.numeric_precision}${col.numeric_scale ? ',' + col.numeric_scale : ''})`;
-          }
-          
-          if (col.is_nullable === 'NO') colDef += ' NOT NULL';
-          if (col.column_default) colDef += ` DEFAULT ${col.column_default}`;
-          
-          return colDef;
-        });
-        
-        sql += columns.join(',\n');
-        sql += '\n);\n\n';
+        sql += generateCreateTable(tableName, schemas[tableName], ddlOptions, catalog[tableName]) + '\n';
       }
       
       if (includeData && tableInfo.data && Array.isArray(tableInfo.data) && tableInfo.data.length > 0) {
         sql += `-- Data for table: ${tableName} (${tableInfo.data.length} rows)\n`;
         
-        tableInfo.data.forEach((row: any, index: number) => {
-          const columns = Object.keys(row).map(col => `"${col}"`).join(', ');
-          const values = Object.values(row).map(val => {
-            if (val === null || val === undefined) return 'NULL';
-            if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-            if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
-            if (typeof val === 'object') return `'${JSON.stringify(val).replace(/'/g, "''")}'`;
-            return String(val);
-          }).join(', ');
-          
-          sql += `INSERT INTO "${tableName}" (${columns}) VALUES (${values});\n`;
-          
+        const deferredColumns = deferred.filter(edge => edge.table === tableName).map(edge => edge.column);
+        const identityColumns = catalog[tableName]?.identityColumns || {};
+        const types = columnTypes[tableName] || {};
+        const rows = tableInfo.data;
+
+        // Each statement takes up to rowsPerInsert consecutive rows that have the same columns
+        for (let start = 0; start < rows.length;) {
+          const names = Object.keys(rows[start]);
+          let end = start + 1;
+          while (
+            end < rows.length &&
+            end - start < rowsPerInsert &&
+            Object.keys(rows[end]).length === names.length &&
+            names.every(name => name in rows[end])
+          ) {
+            end++;
+          }
+
+          const values = rows.slice(start, end).map(row =>
+            `(${names.map(name => formatSQLValue(deferredColumns.includes(name) ? null : row[name], types[name])).join(', ')})`
+          );
+          // GENERATED ALWAYS identity columns only take explicit values with an override
+          const override = names.some(name => identityColumns[name] === 'ALWAYS') ? ' OVERRIDING SYSTEM VALUE' : '';
+
+          sql += `INSERT INTO ${quoteTableName(tableName)} (${names.map(quoteIdentifier).join(', ')})${override} VALUES ` +
+            (values.length > 1 ? `\n  ${values.join(',\n  ')};\n` : `${values[0]};\n`);
+
           // Add a comment every 100 rows for progress tracking
-          if ((index + 1) % 100 === 0) {
-            sql += `-- Inserted ${index + 1} rows so far...\n`;
+          if (Math.floor(end / 100) > Math.floor(start / 100)) {
+            sql += `-- Inserted ${end} rows so far...\n`;
           }
+          start = end;
+        }
+
+        // Move serial and identity sequences past the ids that were inserted
+        getSequenceColumns(columns[tableName] || [], catalog[tableName]).forEach(column => {
+          sql += `${getSequenceResetSQL(tableName, column)};\n`;
         });
         sql += '\n';
       }
@@ -294,6 +469,24 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
       sql += '\n';
     });
     
+    const updates = includeData
+      ? deferred.flatMap(({ table, column, keyColumns }) =>
+          (data[table]?.data || [])
+            .filter(row => row[column] !== null && row[column] !== undefined)
+            .map(row =>
+              `UPDATE ${quoteTableName(table)} SET ${quoteIdentifier(column)} = ${formatSQLValue(row[column], columnTypes[table]?.[column])} WHERE ` +
+              keyColumns.map(key => `${quoteIdentifier(key)} = ${formatSQLValue(row[key], columnTypes[table]?.[key])}`).join(' AND ') + ';\n'
+            )
+        )
+      : [];
+    const lateForeignKeys = generateLateForeignKeys(schemas, ddlOptions, catalog);
+    if (updates.length > 0 || lateForeignKeys) {
+      sql += `-- ============================================\n`;
+      sql += `-- Self-referencing and circular foreign keys\n`;
+      sql += `-- ============================================\n\n`;
+      sql += updates.join('') + lateForeignKeys + '\n';
+    }
+    
     sql += '-- Export completed\n';
     return sql;
   };
@@ -382,32 +575,64 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
                   Format
                 </label>
                 <div className="flex gap-4">
+                  {FORMAT_OPTIONS.map((option) => (
+                    <label key={option.value} className="flex items-center">
+                      <input
+                        type="radio"
+                        name="format"
+                        value={option.value}
+                        checked={format === option.value}
+                        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{option.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {isDelimitedFormat && (
+                <div className="space-y-3">
+                  {format === 'csv' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Delimiter
+                      </label>
+                      <input
+                        type="text"
+                        value={delimiter}
+                        maxLength={1}
+                        onChange={(e) => setDelimiter(e.target.value)}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded text-sm text-center"
+                      />
+                      <span className="ml-2 text-xs text-gray-500">e.g. , or ; or |</span>
+                    </div>
+                  )}
                   <label className="flex items-center">
                     <input
-                      type="radio"
-                      name="format"
-                      value="json"
-                      checked={format === 'json'}
-                      onChange={(e) => setFormat(e.target.value as 'json' | 'sql')}
-                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
-                    />
-                    <span className="ml-2 text-sm text-gray-700">JSON</span>
-                  </label>
-                  <label className="flex items-center">
-                    <input
-                      type="radio"
-                      name="format"
-                      value="sql"
-                      checked={format === 'sql'}
-                      onChange={(e) => setFormat(e.target.value as 'json' | 'sql')}
-                      className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      type="checkbox"
+                      checked={includeHeader}
+                      onChange={(e) => setIncludeHeader(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
                     />
-                    <span className="ml-2 text-sm text-gray-700">SQL</span>
+                    <span className="ml-2 text-sm text-gray-700">Include header row</span>
                   </label>
+                  <p className="text-xs text-gray-500">
+                    One file is downloaded per table. JSON and array values are written as JSON text; NULL is an empty field and an empty string is written as "".
+                  </p>
                 </div>
-              </div>
+              )}
 
               <div className="space-y-3">
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={asArchive}
+                    onChange={(e) => setAsArchive(e.target.checked)}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">ZIP archive (one file per table + manifest.json)</span>
+                </label>
                 <label className="flex items-center">
                   <input
                     type="checkbox"
@@ -417,6 +642,25 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
                   />
                   <span className="ml-2 text-sm text-gray-700">Include schema</span>
                 </label>
+                {format === 'sql' && includeSchema && (
+                  <div className="ml-6">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={ifNotExists}
+                        onChange={(e) => setIfNotExists(e.target.checked)}
+                        className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Keep existing tables (CREATE TABLE IF NOT EXISTS)</span>
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {ifNotExists
+                        ? 'Existing tables are left as they are.'
+                        : 'Existing tables are dropped with CASCADE before they are created.'}
+                      {!sqlAvailable && ' UNIQUE and CHECK constraints and identity columns need SQL execution (see Settings).'}
+                    </p>
+                  </div>
+                )}
                 <label className="flex items-center">
                   <input
                     type="checkbox"
@@ -426,6 +670,20 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
                   />
                   <span className="ml-2 text-sm text-gray-700">Include data</span>
                 </label>
+                {format === 'sql' && includeData && (
+                  <label className="ml-6 flex items-center gap-2 text-sm text-gray-700">
+                    Rows per INSERT
+                    <select
+                      value={rowsPerInsert}
+                      onChange={(e) => setRowsPerInsert(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm"
+                    >
+                      {ROWS_PER_INSERT_OPTIONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
               </div>
             </div>
           </div>
@@ -454,7 +712,11 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
                   {format.toUpperCase()} format
                 </p>
                 <p className="text-xs text-gray-600">
-                  {includeSchema && includeData 
+                  {asArchive
+                    ? `ZIP archive • ${selectedTables.length} file${selectedTables.length !== 1 ? 's' : ''} + manifest.json`
+                    : isDelimitedFormat
+                    ? `Data only • ${selectedTables.length} file${selectedTables.length !== 1 ? 's' : ''}, one per table`
+                    : includeSchema && includeData 
                     ? 'Schema and data included'
                     : includeSchema 
                     ? 'Schema only'
@@ -503,6 +765,39 @@ export const ExportView: React.FC<ExportViewProps> = ({ tables, client, getColum
                 This may take a moment for large databases...
               </div>
             )}
+
+            {Object.keys(tableProgress).length > 0 && includeData && (
+              <div className="space-y-2">
+                {Object.entries(tableProgress).map(([table, progress]) => (
+                  <div key={table} className="text-xs">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-medium text-gray-900 truncate">{table}</span>
+                      <span className={`flex items-center gap-1 ${
+                        progress.status === 'verified' ? 'text-green-600'
+                          : progress.status === 'incomplete' || progress.status === 'error' ? 'text-red-600'
+                          : 'text-gray-600'
+                      }`}>
+                        {progress.status === 'verified' && <CheckCircle className="w-3 h-3" />}
+                        {progress.fetched}{progress.total !== null ? ` / ${progress.total}` : ''} rows
+                        {progress.status === 'incomplete' && ' • incomplete'}
+                        {progress.status === 'error' && ' • failed'}
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className={`h-1.5 rounded-full ${
+                          progress.status === 'incomplete' || progress.status === 'error' ? 'bg-red-500' : 'bg-blue-600'
+                        }`}
+                        style={{
+                          width: `${progress.total ? Math.min(100, (progress.fetched / progress.total) * 100)
+                            : progress.status === 'pending' ? 0 : 100}%`
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { FunctionSquare, Play, AlertCircle, Download } from 'lucide-react';
+import { FunctionInfo, FunctionParameter, TableData } from '../types/database';
+import { TableView } from './TableView';
+import { inferColumns } from '../utils/columns';
+import { toCSV } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { qualifyTableName } from '../utils/tableName';
+
+interface FunctionsViewProps {
+  functions: FunctionInfo[];
+  onCallFunction: (functionName: string, args: Record<string, unknown>, method: 'GET' | 'POST') => Promise<unknown>;
+}
+
+// Function results can be a set of rows, a single composite value or a scalar
+const resultToRows = (result: unknown, functionName: string): Record<string, unknown>[] => {
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (Array.isArray(result)) {
+    return result.map(item => (isRecord(item) ? item : { [functionName]: item }));
+  }
+  if (isRecord(result)) return [result];
+  return [{ [functionName]: result }];
+};
+
+const parseArgument = (value: string, parameter: FunctionParameter): unknown => {
+  const format = parameter.format || '';
+
+  if (parameter.type === 'integer' || parameter.type === 'number') {
+    const num = Number(value);
+    if (isNaN(num)) throw new Error(`"${parameter.name}" must be a number`);
+    return num;
+  }
+
+  if (parameter.type === 'boolean') {
+    return value === 'true';
+  }
+
+  if (parameter.type === 'array' || parameter.type === 'object' || format.includes('json') || format.endsWith('[]')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`"${parameter.name}" must be valid JSON`);
+    }
+  }
+
+  return value;
+};
+
+export const FunctionsView: React.FC<FunctionsViewProps> = ({ functions, onCallFunction }) => {
+  const [selectedFunction, setSelectedFunction] = useState<FunctionInfo | null>(null);
+  const [argValues, setArgValues] = useState<Record<string, string>>({});
+  const [method, setMethod] = useState<'GET' | 'POST'>('POST');
+  const [result, setResult] = useState<TableData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = (fn: FunctionInfo) => {
+    setSelectedFunction(fn);
+    setArgValues({});
+    setMethod(fn.methods.includes('POST') ? 'POST' : 'GET');
+    setResult(null);
+    setError(null);
+  };
+
+  const handleCall = async () => {
+    if (!selectedFunction) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const args: Record<string, unknown> = {};
+      selectedFunction.parameters.forEach(param => {
+        const value = argValues[param.name] ?? '';
+        if (value === '') {
+          if (param.required) throw new Error(`"${param.name}" is required`);
+          return;
+        }
+        args[param.name] = parseArgument(value, param);
+      });
+
+      const qualifiedName = qualifyTableName(selectedFunction.function_schema, selectedFunction.function_name);
+      const data = await onCallFunction(qualifiedName, args, method);
+      const rows = resultToRows(data, selectedFunction.function_name);
+      setResult({
+        columns: inferColumns(rows),
+        rows,
+        totalRows: rows.length
+      });
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Function call failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!selectedFunction || !result) return;
+
+    const baseName = `${selectedFunction.function_name}-result`;
+    if (format === 'json') {
+      downloadFile(JSON.stringify(result.rows, null, 2), `${baseName}.json`, 'application/json');
+    } else {
+      downloadFile(toCSV(result.rows, result.columns.map(col => col.column_name)), `${baseName}.csv`, 'text/csv');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Functions</h1>
+        <p className="text-gray-600">
+          Call the database functions PostgREST exposes under /rpc.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Available Functions ({functions.length})
+          </h3>
+          <div className="space-y-1 max-h-96 overflow-y-auto">
+            {functions.length === 0 ? (
+              <p className="text-gray-500 text-sm">No functions are exposed through the API.</p>
+            ) : (
+              functions.map((fn) => {
+                const qualifiedName = qualifyTableName(fn.function_schema, fn.function_name);
+                return (
+                  <button
+                    key={qualifiedName}
+                    onClick={() => handleSelect(fn)}
+                    className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                      selectedFunction === fn
+                        ? 'bg-blue-50 text-blue-700 border-l-2 border-blue-600'
+                        : 'hover:bg-gray-50 text-gray-700'
+                    }`}
+                  >
+                    <span className="block text-sm font-medium">{fn.function_name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {fn.function_schema} • {fn.parameters.length} parameter{fn.parameters.length !== 1 ? 's' : ''}
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          {!selectedFunction ? (
+            <div className="flex flex-col items-center justify-center h-full text-center py-12">
+              <FunctionSquare className="w-12 h-12 text-gray-300 mb-4" />
+              <p className="text-gray-500">Select a function to call it.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{selectedFunction.function_name}</h3>
+                {selectedFunction.description && (
+                  <p className="text-sm text-gray-600 mt-1">{selectedFunction.description}</p>
+                )}
+              </div>
+
+              {selectedFunction.parameters.length === 0 ? (
+                <p className="text-sm text-gray-500">This function takes no parameters.</p>
+              ) : (
+                selectedFunction.parameters.map((param) => (
+                  <div key={param.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {param.name}
+                      {param.required && <span className="text-red-500"> *</span>}
+                      <span className="ml-2 text-xs text-gray-400 font-normal">
+                        {param.format || param.type}
+                      </span>
+                    </label>
+                    {param.type === 'boolean' ? (
+                      <select
+                        value={argValues[param.name] ?? ''}
+                        onChange={(e) => setArgValues(prev => ({ ...prev, [param.name]: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      >
+                        <option value="">(not set)</option>
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                      </select>
+                    ) : (
+                      <input
+                        type={param.type === 'integer' || param.type === 'number' ? 'number' : 'text'}
+                        value={argValues[param.name] ?? ''}
+                        onChange={(e) => setArgValues(prev => ({ ...prev, [param.name]: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder={param.required ? 'Required' : 'Optional'}
+                      />
+                    )}
+                  </div>
+                ))
+              )}
+
+              <div className="flex items-center justify-between pt-2">
+                <div className="flex gap-4">
+                  {(['POST', 'GET'] as const).map((option) => (
+                    <label key={option} className="flex items-center">
+                      <input
+                        type="radio"
+                        name="method"
+                        value={option}
+                        checked={method === option}
+                        disabled={!selectedFunction.methods.includes(option)}
+                        onChange={() => setMethod(option)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{option}</span>
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={handleCall}
+                  disabled={loading}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  {loading ? 'Running...' : 'Run Function'}
+                </button>
+              </div>
+
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+                  <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                  <span className="text-red-700 text-sm">{error}</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selectedFunction && result && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => handleExport('json')}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+          <TableView
+            tableName={`${selectedFunction.function_name}()`}
+            tableData={result}
+            onRefresh={handleCall}
+            loading={loading}
+            readOnly
+          />
+        </div>
+      )}
+    </div>
+  );
+};
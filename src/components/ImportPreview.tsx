@@ -0,0 +1,61 @@
+import React from 'react';
+import { ColumnInfo } from '../types/database';
+import { getRowColumns } from '../utils/csv';
+
+interface ImportPreviewProps {
+  tableName: string;
+  // Rows as they will be sent, after mapping and type conversion
+  rows: Record<string, unknown>[];
+  totalRows: number;
+  targetColumns: ColumnInfo[] | null;
+}
+
+const formatPreviewValue = (value: unknown): React.ReactNode => {
+  if (value === null || value === undefined) {
+    return <span className="text-gray-400 italic">NULL</span>;
+  }
+  if (value === '') {
+    return <span className="text-gray-400 italic">empty</span>;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ tableName, rows, totalRows, targetColumns }) => {
+  const columns = getRowColumns(rows);
+  const columnTypes = new Map((targetColumns || []).map(col => [col.column_name, col.data_type]));
+
+  return (
+    <div>
+      <p className="text-xs text-gray-600 mb-2">
+        First {rows.length} of {totalRows} rows for {tableName}:
+      </p>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              {columns.map(column => (
+                <th key={column} className="px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">
+                  {column}
+                  <span className="block font-normal text-gray-400">
+                    {columnTypes.get(column) || (targetColumns ? 'unknown column' : 'text')}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => (
+              <tr key={index}>
+                {columns.map(column => (
+                  <td key={column} className="px-2 py-1 text-gray-900 whitespace-nowrap max-w-xs truncate">
+                    {formatPreviewValue(row[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
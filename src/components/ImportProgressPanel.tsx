@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { TableImportProgress } from '../types/database';
+
+interface ImportProgressPanelProps {
+  tables: Record<string, TableImportProgress>;
+  // When the import started and how much it has written since, for the rate
+  startedAt: number;
+  sent: number;
+  unit: 'rows' | 'statements';
+  cancelling: boolean;
+  onCancel: () => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const percentOf = ({ done, total }: TableImportProgress) => (total > 0 ? Math.min(100, (done / total) * 100) : 100);
+
+export const ImportProgressPanel: React.FC<ImportProgressPanelProps> = ({
+  tables,
+  startedAt,
+  sent,
+  unit,
+  cancelling,
+  onCancel
+}) => {
+  const overall = Object.values(tables).reduce(
+    (sum, table) => ({ done: sum.done + table.done, total: sum.total + table.total }),
+    { done: 0, total: 0 }
+  );
+  const elapsed = (Date.now() - startedAt) / 1000;
+  const rate = elapsed > 0 ? sent / elapsed : 0;
+  const remaining = overall.total - overall.done;
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-blue-900">
+            {overall.done.toLocaleString()} / {overall.total.toLocaleString()} {unit} ({Math.floor(percentOf(overall))}%)
+          </p>
+          <p className="text-xs text-blue-700">
+            {rate > 0 ? `${Math.round(rate).toLocaleString()} ${unit}/s` : 'Starting...'}
+            {rate > 0 && remaining > 0 && ` • about ${formatDuration(remaining / rate)} left`}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          disabled={cancelling}
+          className="flex items-center gap-1 px-3 py-1 text-sm border border-blue-300 rounded-lg text-blue-800 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <XCircle className="w-4 h-4" />
+          {cancelling ? 'Stopping after this batch...' : 'Cancel'}
+        </button>
+      </div>
+
+      <div className="w-full bg-blue-100 rounded-full h-2">
+        <div className="h-2 rounded-full bg-blue-600" style={{ width: `${percentOf(overall)}%` }} />
+      </div>
+
+      {Object.keys(tables).length > 1 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {Object.entries(tables).map(([table, progress]) => (
+            <div key={table} className="text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900 truncate">{table}</span>
+                <span className={`flex items-center gap-1 ${progress.done >= progress.total ? 'text-green-600' : 'text-gray-600'}`}>
+                  {progress.done >= progress.total && <CheckCircle className="w-3 h-3" />}
+                  {progress.done.toLocaleString()} / {progress.total.toLocaleString()}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div className="h-1.5 rounded-full bg-blue-600" style={{ width: `${percentOf(progress)}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
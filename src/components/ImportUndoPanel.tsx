@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, RotateCcw } from 'lucide-react';
+import { ImportJournal, ImportUndoResult } from '../types/database';
+
+interface ImportUndoPanelProps {
+  // The latest import that can still be undone
+  journal: ImportJournal | null;
+  undoing: boolean;
+  // Outcome of the last undo, shown until another import starts
+  result: ImportUndoResult | null;
+  onUndo: () => void;
+  onDiscard: () => void;
+}
+
+export const ImportUndoPanel: React.FC<ImportUndoPanelProps> = ({ journal, undoing, result, onUndo, onDiscard }) => {
+  const insertedRows = journal?.tables.reduce((sum, table) => sum + table.insertedKeys.length, 0) ?? 0;
+  const previousRows = journal?.tables.reduce((sum, table) => sum + table.previousRows.length, 0) ?? 0;
+
+  return (
+    <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-left space-y-3">
+      {result && (
+        <div className={`flex items-start gap-2 text-sm ${result.errors.length > 0 ? 'text-red-700' : 'text-green-700'}`}>
+          {result.errors.length > 0
+            ? <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+            : <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />}
+          <div>
+            <p>
+              Undo deleted {result.rowsDeleted} row(s) and restored {result.rowsRestored} row(s).
+              {result.errors.length > 0 && ' Some changes could not be undone; running the undo again is safe.'}
+            </p>
+            {result.errors.length > 0 && (
+              <ul className="mt-1 space-y-1 text-xs text-red-600">
+                {result.errors.map((error, index) => <li key={index}>• {error}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {journal && (
+        <>
+          <div>
+            <p className="text-sm font-medium text-gray-900">
+              Last import: {journal.fileName || 'unnamed file'}
+            </p>
+            <p className="text-xs text-gray-600">
+              {new Date(journal.createdAt).toLocaleString()} • {insertedRows} inserted row(s) to delete
+              {previousRows > 0 && `, ${previousRows} overwritten or deleted row(s) to restore`}
+            </p>
+            {journal.untrackedTables.length > 0 && (
+              <p className="text-xs text-yellow-700 mt-1">
+                Not tracked, so not undone: {journal.untrackedTables.join(', ')}
+              </p>
+            )}
+            {!!journal.untrackedStatements && (
+              <p className="text-xs text-yellow-700 mt-1">
+                Not tracked: {journal.untrackedStatements} SQL statement(s) other than INSERT
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onUndo}
+              disabled={undoing}
+              className="flex items-center gap-2 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {undoing ? 'Undoing...' : 'Undo this import'}
+            </button>
+            <button
+              onClick={onDiscard}
+              disabled={undoing}
+              className="text-xs text-gray-500 underline hover:text-gray-700 disabled:opacity-50"
+            >
+              Forget
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
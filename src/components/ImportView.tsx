@@ -1,18 +1,407 @@
-import React, { useState } from 'react';
-import { Upload, FileText, AlertCircle, CheckCircle, Database } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, FileText, AlertCircle, CheckCircle, Database, ClipboardCheck, History } from 'lucide-react';
 import { SupabaseClient } from '@supabase/supabase-js';
+import { ExportBundle, readExportBundle } from '../utils/bundle';
+import { createExportFile, parseExportFile } from '../utils/exportFile';
+import { ColumnInfo, DryRunResult, ExportedTable, ExportFile, FetchAllResult, FetchProgress, ImportCheckpoint, ImportJournal, ImportJournalTable, ImportMapping, ImportResult, ImportUndoResult, RowKey, SkippedStatement, SQLResult, TableImportOptions, TableImportProgress } from '../types/database';
+import { BatchInsertResult, ConnectionLostError, DEFAULT_CHUNK_SIZE, DEFAULT_TABLE_OPTIONS, insertInChunks } from '../utils/batchInsert';
+import { deleteCheckpoint, getCheckpointId, getFileFingerprint, loadCheckpoint, saveCheckpoint } from '../utils/checkpoints';
+import { countJournalRows, deleteImportJournal, loadLatestJournal, MAX_JOURNAL_ROWS, saveImportJournal, undoImport } from '../utils/importJournal';
+import { deleteRowsByKeys, fetchRowsByKeys, getKeyString, pickKey, updateRowsByKeys } from '../utils/rowKeys';
+import { getPrimaryKeyColumns } from '../utils/openapi';
+import { ForeignKeyEdge, getForeignKeyEdges, getReadPasses, sortTablesByDependencies } from '../utils/tableOrder';
+import { analyzeTable } from '../utils/dryRun';
+import { applyMapping, createIdentityMapping, getMappedTables, mapRow } from '../utils/mapping';
+import { detectHeader, getRowColumns, parseCSV, recordsToRows, sniffDelimiter } from '../utils/csv';
+import { coerceFile } from '../utils/coerce';
+import { normalizeTableName } from '../utils/tableName';
+import { parseSQLScript, SQLStatement } from '../utils/sqlParser';
+import { ParsedInsert, parseInsertStatement, parseJSONLiterals, toRowObjects } from '../utils/sqlInsert';
+import { getSequenceResetSQL } from '../utils/sqlProviders';
+import { loadTableCatalog } from '../utils/sqlExport';
+import { detectJSONFormat, JSONSourceFormat, streamJSONRows } from '../utils/jsonStream';
+import { ConflictOptionsPanel } from './ConflictOptionsPanel';
+import { DryRunReportPanel } from './DryRunReportPanel';
+import { MappingPanel } from './MappingPanel';
+import { ImportPreview } from './ImportPreview';
+import { ImportProgressPanel } from './ImportProgressPanel';
+import { ImportUndoPanel } from './ImportUndoPanel';
+
+// A delimited text file imported into a single table
+interface CSVSource {
+  text: string;
+  delimiter: string;
+  hasHeader: boolean;
+  tableName: string;
+}
+
+// A JSON file too large to parse in memory; its rows are read again while importing
+interface StreamSource {
+  file: File;
+  format: JSONSourceFormat;
+  // The single table of array and NDJSON files
+  tableName: string;
+  rowCounts: Record<string, number>;
+  // Every column seen in each table, not just in the sampled rows
+  columns: Record<string, string[]>;
+}
+
+interface FileValidation {
+  valid: boolean;
+  // An ExportFile for JSON and CSV, SQLStatement[] for SQL; for streamed files, an export holding only the first rows of each table
+  data?: unknown;
+  format?: 'json' | 'sql' | 'csv';
+  csv?: CSVSource;
+  stream?: StreamSource;
+  error?: string;
+}
+
+const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+// Values of a deferred reference column, each with the keys of the rows that hold it
+type DeferredValues = Map<string, { value: unknown; keys: RowKey[] }>;
+
+const PREVIEW_ROWS = 10;
+// JSON files above this size are streamed; SQL and CSV files are read whole and may not exceed it
+const MAX_IN_MEMORY_SIZE = 10 * 1024 * 1024;
+const SAMPLE_ROWS = 100;
+
+const SkippedStatementList: React.FC<{ statements: SkippedStatement[] }> = ({ statements }) => (
+  <details className="mt-2 text-xs">
+    <summary className="cursor-pointer text-yellow-700 hover:text-yellow-800">
+      {statements.length} SQL statement{statements.length !== 1 ? 's were' : ' was'} skipped
+    </summary>
+    <ul className="mt-2 space-y-1 text-yellow-700">
+      {statements.slice(0, 20).map((statement, index) => (
+        <li key={index}>• Line {statement.line} ({statement.keyword || 'statement'}): {statement.reason}</li>
+      ))}
+      {statements.length > 20 && <li>• ... and {statements.length - 20} more</li>}
+    </ul>
+  </details>
+);
+
+const ImportSummaryList: React.FC<{ results: ImportResult }> = ({ results }) => (
+  <ul className="text-sm text-gray-600 space-y-1">
+    {!!results.tablesProcessed && <li>• Tables processed: {results.tablesProcessed}</li>}
+    {!!results.rowsInserted && <li>• Rows inserted: {results.rowsInserted}</li>}
+    {!!results.rowsSkipped && <li>• Rows skipped (already in the table): {results.rowsSkipped}</li>}
+    {!!results.rowsDeleted && <li>• Rows deleted (mirror): {results.rowsDeleted}</li>}
+    {!!results.rowsResumed && <li>• Rows skipped (written by the interrupted import): {results.rowsResumed}</li>}
+    {!!results.referencesSet && <li>• Rows updated with circular or self-references: {results.referencesSet}</li>}
+    {!!results.statementsExecuted && <li>• SQL statements executed: {results.statementsExecuted}</li>}
+    {!!results.sequencesReset && <li>• Key sequences reset: {results.sequencesReset}</li>}
+  </ul>
+);
+
+// Rows that share a value are updated together once every table is in
+const addDeferredValue = (values: DeferredValues, row: Record<string, unknown>, { column, keyColumns }: ForeignKeyEdge) => {
+  if (row[column] === null || row[column] === undefined) return;
+  const valueKey = JSON.stringify(row[column]);
+  if (!values.has(valueKey)) values.set(valueKey, { value: row[column], keys: [] });
+  values.get(valueKey)!.keys.push(pickKey(row, keyColumns));
+};
+
+// Syntax errors (unterminated strings, comments or $tag$ bodies) carry the line they start on
+const parseSQLFile = (text: string): SQLStatement[] => {
+  const statements = parseSQLScript(text);
+  if (statements.length === 0) {
+    throw new Error('Empty SQL file');
+  }
+  return statements;
+};
+
+const isRowObject = (row: unknown): row is Record<string, unknown> =>
+  typeof row === 'object' && row !== null && !Array.isArray(row);
+
+/**
+ * Reads a JSON file once to validate it and to collect the row count,
+ * columns and first rows of each table. Only the sampled rows are kept.
+ * Small array and NDJSON files use this too, with every row sampled.
+ */
+const scanJSONFile = async (
+  file: File,
+  format: JSONSourceFormat,
+  tableName: string,
+  sampleRows: number
+): Promise<{ data: ExportFile; rowCounts: Record<string, number>; columns: Record<string, string[]> }> => {
+  const metadata: Record<string, unknown> = {};
+  // Table objects as far as they have been read; other values are left for parseExportFile to reject
+  const tables: Record<string, unknown> = {};
+  const rowCounts: Record<string, number> = {};
+  const columns: Record<string, Set<string>> = {};
+  let versioned = false;
+
+  const getTable = (name: string) => {
+    const normalized = normalizeTableName(name);
+    if (!tables[normalized]) tables[normalized] = {};
+    return tables[normalized] as Record<string, unknown>;
+  };
+
+  await streamJSONRows(file, format, tableName, {
+    onTable: name => {
+      getTable(name).data = [];
+    },
+    onMetadata: (path, value) => {
+      // Everything that is not a row or a table field ends up where parseExportFile will look at it
+      if (path.length === 0) {
+        throw new Error(`${file.name} must contain ${format === 'array' ? 'an array of rows' : 'an export object'}`);
+      }
+      if (path.length === 1 && (versioned || path[0] === 'formatVersion')) {
+        versioned = true;
+        metadata[path[0]] = value;
+      } else if (versioned && path[0] === 'tables' && path.length === 2) {
+        tables[normalizeTableName(String(path[1]))] = value;
+      } else {
+        const [name, field] = versioned ? [path[1], path[2]] : [path[0], path[1]];
+        if (field === undefined) {
+          tables[normalizeTableName(String(name))] = value;
+        } else {
+          getTable(String(name))[field] = value;
+        }
+      }
+    },
+    onRow: (table, row, index) => {
+      if (!isRowObject(row)) {
+        throw new Error(`Row ${index + 1} of ${table} is not an object`);
+      }
+      const entry = getTable(table);
+      if (!Array.isArray(entry.data)) entry.data = [];
+      const sample = entry.data as unknown[];
+      if (sample.length < sampleRows) sample.push(row);
+      rowCounts[table] = (rowCounts[table] || 0) + 1;
+      if (!columns[table]) columns[table] = new Set();
+      Object.keys(row).forEach(column => columns[table].add(column));
+    }
+  });
+
+  const data = format === 'export'
+    ? parseExportFile(versioned ? { tables, ...metadata } : tables)
+    : createExportFile({ [tableName]: { data: (tables[tableName] as ExportedTable | undefined)?.data || [] } }, '');
+
+  return {
+    data,
+    rowCounts,
+    columns: Object.fromEntries(Object.entries(columns).map(([table, names]) => [table, Array.from(names)]))
+  };
+};
+
+// CSV values stay text until the target table is known; they are converted in prepareFile
+const csvToExportFile = (csv: CSVSource): ExportFile =>
+  createExportFile({ [csv.tableName]: { data: recordsToRows(parseCSV(csv.text, csv.delimiter), csv.hasHeader) } }, '');
+
+/**
+ * Reads the CSV or TSV files of a verified archive into the tables named in
+ * its manifest. The manifest row count tells whether a file has a header row;
+ * without one, the manifest columns name the fields.
+ */
+const csvBundleToExportFile = ({ manifest, files }: ExportBundle): ExportFile => {
+  const tables = Object.fromEntries(manifest.tables.map(table => {
+    const text = files[table.file];
+    const records = parseCSV(text, manifest.format === 'tsv' ? '\t' : sniffDelimiter(text));
+    const hasHeader = records.length === table.rowCount + 1;
+    const names = table.columns?.map(col => col.column_name);
+    const data = !hasHeader && names && records.every(record => record.length <= names.length)
+      ? recordsToRows([names, ...records], true)
+      : recordsToRows(records, hasHeader);
+    return [normalizeTableName(table.name), { data }];
+  }));
+  return createExportFile(tables, manifest.source?.url || '');
+};
 
 interface ImportViewProps {
   client: SupabaseClient | null;
-  executeSQL: (sql: string) => Promise<any>;
+  // Qualified names of the tables in the target database
+  tables: string[];
+  executeSQL: (sql: string) => Promise<SQLResult>;
+  // Whether executeSQL has a working provider; DDL and sequence reset depend on it
+  sqlAvailable: boolean;
+  getColumns: (tableName: string) => Promise<ColumnInfo[]>;
+  getAllRows: (
+    tableName: string,
+    onProgress?: (progress: FetchProgress) => void,
+    pageSize?: number,
+    columns?: string[]
+  ) => Promise<FetchAllResult>;
+  targetUrl: string;
 }
 
-export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) => {
+export const ImportView: React.FC<ImportViewProps> = ({ client, tables, executeSQL, sqlAvailable, getColumns, getAllRows, targetUrl }) => {
   const [dragOver, setDragOver] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [importStatus, setImportStatus] = useState<'idle' | 'validating' | 'importing' | 'success' | 'error'>('idle');
+  const [importStatus, setImportStatus] = useState<'idle' | 'validating' | 'checking' | 'importing' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
-  const [importResults, setImportResults] = useState<any>(null);
+  const [importResults, setImportResults] = useState<ImportResult | null>(null);
+  const [chunkSize, setChunkSize] = useState(DEFAULT_CHUNK_SIZE);
+  const [resetSequences, setResetSequences] = useState(false);
+  const [validation, setValidation] = useState<FileValidation | null>(null);
+  const [targetColumns, setTargetColumns] = useState<Record<string, ColumnInfo[] | null>>({});
+  const [tableOptions, setTableOptions] = useState<Record<string, TableImportOptions>>({});
+  const [dryRunReport, setDryRunReport] = useState<DryRunResult | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [sourceColumns, setSourceColumns] = useState<Record<string, string[]>>({});
+  const [fileHash, setFileHash] = useState<string | null>(null);
+  const [checkpoint, setCheckpoint] = useState<ImportCheckpoint | null>(null);
+  const [resumeImport, setResumeImport] = useState(true);
+  const [tableProgress, setTableProgress] = useState<Record<string, TableImportProgress>>({});
+  const [throughput, setThroughput] = useState<{ startedAt: number; sent: number; unit: 'rows' | 'statements' } | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
+  const [journal, setJournal] = useState<ImportJournal | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [undoResult, setUndoResult] = useState<ImportUndoResult | null>(null);
+
+  // The last import against this project can be undone after a reload too
+  useEffect(() => {
+    setJournal(null);
+    loadLatestJournal(targetUrl)
+      .then(setJournal)
+      .catch(error => console.error('Failed to read import journal:', error));
+  }, [targetUrl]);
+
+  // Loads column metadata for target tables that have not been looked up yet
+  const loadTargetColumns = async (tableNames: string[], known: Record<string, ColumnInfo[] | null>) => {
+    const columns: Record<string, ColumnInfo[] | null> = {};
+    for (const tableName of tableNames) {
+      if (tableName in known) continue;
+      try {
+        columns[tableName] = await getColumns(tableName);
+      } catch {
+        columns[tableName] = null;
+      }
+    }
+    setTargetColumns(prev => ({ ...prev, ...columns }));
+  };
+
+  const handleMappingChange = (next: ImportMapping) => {
+    setMapping(next);
+    setDryRunReport(null);
+    loadTargetColumns(getMappedTables(next), targetColumns);
+  };
+
+  // Validates the file as soon as it is chosen, so per-table options can be offered before importing
+  const selectFile = async (file: File) => {
+    setSelectedFile(file);
+    setErrorMessage(''); // Clear any previous errors
+    setImportResults(null);
+    setDryRunReport(null);
+    setValidation(null);
+    setTargetColumns({});
+    setTableOptions({});
+    setMapping({});
+    setSourceColumns({});
+    setFileHash(null);
+    setCheckpoint(null);
+    setResumeImport(true);
+
+    // ZIP archives are compressed exports of any size and are unpacked in memory
+    const isJSONOrArchive = /\.(json|ndjson|jsonl|zip)$/i.test(file.name);
+    if (!isJSONOrArchive && file.size > MAX_IN_MEMORY_SIZE) {
+      setErrorMessage(
+        `File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds the 10MB limit for SQL and CSV files. ` +
+        'Larger databases can be imported from a JSON export, which is read in a stream.'
+      );
+      setImportStatus('error');
+      return;
+    }
+
+    setImportStatus('validating');
+
+    const result = await validateFile(file);
+    if (!result.valid) {
+      setImportStatus('error');
+      setErrorMessage(result.error || 'Validation failed');
+      return;
+    }
+
+    if (result.format === 'json' || result.format === 'csv') {
+      await initTableFile(result.data as ExportFile, {}, {}, result.stream?.columns);
+
+      // Checkpoints are optional; without IndexedDB the import just cannot be resumed
+      try {
+        const hash = await getFileFingerprint(file);
+        setFileHash(hash);
+        setCheckpoint(await loadCheckpoint(targetUrl, hash));
+      } catch (error) {
+        console.error('Failed to read import checkpoint:', error);
+      }
+    }
+
+    setValidation(result);
+    setImportStatus('idle');
+  };
+
+  // Sets up the mapping step for a file; tables keep their target from `previousMapping`
+  const initTableFile = async (
+    file: ExportFile,
+    previousMapping: ImportMapping,
+    knownColumns: Record<string, ColumnInfo[] | null>,
+    columns?: Record<string, string[]>
+  ) => {
+    const initialMapping = createIdentityMapping(file);
+    Object.keys(initialMapping).forEach(tableName => {
+      if (previousMapping[tableName]) initialMapping[tableName].target = previousMapping[tableName].target;
+    });
+
+    setMapping(initialMapping);
+    setSourceColumns(Object.fromEntries(
+      Object.entries(file.tables).map(([tableName, tableData]) => [
+        tableName,
+        columns?.[tableName] || getRowColumns(tableData.data || [])
+      ])
+    ));
+    await loadTargetColumns(getMappedTables(initialMapping), knownColumns);
+  };
+
+  // Re-reads the CSV text when the delimiter or header setting is changed by hand
+  const handleCSVSettingsChange = async (changes: Partial<CSVSource>) => {
+    if (!validation?.csv) return;
+
+    const csv = { ...validation.csv, ...changes };
+    setDryRunReport(null);
+    try {
+      const data = csvToExportFile(csv);
+      setErrorMessage('');
+      setValidation({ ...validation, data, csv });
+      await initTableFile(data, mapping, targetColumns);
+    } catch (error) {
+      setValidation({ ...validation, csv });
+      setErrorMessage('Failed to parse CSV: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  // The rows that will be written: mapped to the target tables and, for CSV, converted to the column types
+  const prepareFile = (file = validation!.data as ExportFile): ExportFile => {
+    const mapped = applyMapping(file, mapping);
+    return validation?.format === 'csv' ? coerceFile(mapped, targetColumns) : mapped;
+  };
+
+  const getPreview = () => {
+    if (validation?.format !== 'csv') return null;
+
+    const file = validation.data as ExportFile;
+    const sample = prepareFile({
+      ...file,
+      tables: Object.fromEntries(
+        Object.entries(file.tables).map(([tableName, tableData]) => [
+          tableName,
+          { data: (tableData.data || []).slice(0, PREVIEW_ROWS) }
+        ])
+      )
+    });
+    const [tableName, tableData] = Object.entries(sample.tables)[0] || [];
+    if (!tableName) return null;
+
+    return {
+      tableName,
+      rows: tableData.data || [],
+      totalRows: Object.values(file.tables)[0]?.data?.length || 0
+    };
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -30,62 +419,92 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
     
     const files = e.dataTransfer.files;
     if (files.length > 0) {
-      const file = files[0];
-      
-      // Check file size (10MB limit)
-      const maxSize = 10 * 1024 * 1024; // 10MB in bytes
-      if (file.size > maxSize) {
-        setErrorMessage(`File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds the 10MB limit. Please use a smaller file.`);
-        setImportStatus('error');
-        return;
-      }
-      
-      setSelectedFile(file);
-      setErrorMessage(''); // Clear any previous errors
-      setImportStatus('idle');
+      selectFile(files[0]);
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      const file = files[0];
-      
-      // Check file size (10MB limit)
-      const maxSize = 10 * 1024 * 1024; // 10MB in bytes
-      if (file.size > maxSize) {
-        setErrorMessage(`File size (${(file.size / 1024 / 1024).toFixed(1)}MB) exceeds the 10MB limit. Please use a smaller file.`);
-        setImportStatus('error');
-        return;
-      }
-      
-      setSelectedFile(file);
-      setErrorMessage(''); // Clear any previous errors
-      setImportStatus('idle');
+      selectFile(files[0]);
     }
   };
 
-  const validateFile = async (file: File): Promise<{ valid: boolean; data?: any; error?: string }> => {
+  // Parses and deeply validates a JSON export, migrating unversioned files forward
+  const parseJSONExport = (text: string, filename: string): ExportFile => {
+    let data: unknown;
     try {
-      const text = await file.text();
-      
-      if (file.name.endsWith('.json')) {
-        const data = JSON.parse(text);
-        
-        // Validate JSON structure
-        if (typeof data !== 'object' || data === null) {
-          throw new Error('Invalid JSON structure. Expected an object with table definitions.');
+      data = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`${filename} is not valid JSON: ${err instanceof Error ? err.message : 'parse error'}`);
+    }
+    return parseExportFile(data);
+  };
+
+  const validateFile = async (file: File): Promise<FileValidation> => {
+    try {
+      if (file.name.toLowerCase().endsWith('.zip')) {
+        // Checksums are verified before any table file is used
+        const bundle = await readExportBundle(new Uint8Array(await file.arrayBuffer()));
+        const contents = bundle.manifest.tables.map(table => bundle.files[table.file]);
+
+        if (bundle.manifest.format === 'json') {
+          const tables = contents.reduce((merged, content, index) => {
+            const file = parseJSONExport(content, bundle.manifest.tables[index].file);
+            return { ...merged, ...file.tables };
+          }, {});
+          return { valid: true, data: createExportFile(tables, bundle.manifest.source?.url || ''), format: 'json' };
         }
-        
-        return { valid: true, data };
-      } else if (file.name.endsWith('.sql')) {
-        if (!text.trim()) {
-          throw new Error('Empty SQL file');
+        if (bundle.manifest.format === 'sql') {
+          return { valid: true, data: parseSQLFile(contents.join('\n')), format: 'sql' };
         }
-        
-        return { valid: true, data: text };
+        if (bundle.manifest.format === 'csv' || bundle.manifest.format === 'tsv') {
+          return { valid: true, data: csvBundleToExportFile(bundle), format: 'csv' };
+        }
+        throw new Error(`${String(bundle.manifest.format).toUpperCase()} archives cannot be imported.`);
+      }
+
+      const extension = file.name.toLowerCase().split('.').pop();
+
+      if (extension === 'json' || extension === 'ndjson' || extension === 'jsonl') {
+        const format = await detectJSONFormat(file);
+        // Array and NDJSON files hold one table, named after the file like CSV files
+        const tableName = normalizeTableName(file.name.replace(/\.[^.]+$/, ''));
+
+        if (file.size > MAX_IN_MEMORY_SIZE) {
+          const { data, rowCounts, columns } = await scanJSONFile(file, format, tableName, SAMPLE_ROWS);
+          return { valid: true, data, format: 'json', stream: { file, format, tableName, rowCounts, columns } };
+        }
+        if (format === 'export') {
+          return { valid: true, data: parseJSONExport(await file.text(), file.name), format: 'json' };
+        }
+        const { data } = await scanJSONFile(file, format, tableName, Infinity);
+        return { valid: true, data, format: 'json' };
+      }
+
+      const text = await file.text();
+
+      if (extension === 'csv' || extension === 'tsv') {
+        const delimiter = extension === 'tsv' ? '\t' : sniffDelimiter(text);
+        const records = parseCSV(text, delimiter);
+        if (records.length === 0) {
+          throw new Error('Empty CSV file');
+        }
+
+        // The file name suggests the target table; it can be changed in the mapping step
+        const csv: CSVSource = {
+          text,
+          delimiter,
+          hasHeader: detectHeader(records.slice(0, 21)),
+          tableName: normalizeTableName(file.name.replace(/\.[^.]+$/, ''))
+        };
+        return { valid: true, data: csvToExportFile(csv), format: 'csv', csv };
+      }
+
+      if (extension === 'sql') {
+        return { valid: true, data: parseSQLFile(text), format: 'sql' };
       } else {
-        throw new Error('Unsupported file type. Please select a JSON or SQL file.');
+        throw new Error('Unsupported file type. Please select a JSON, NDJSON, SQL, CSV, TSV or ZIP file.');
       }
     } catch (error) {
       return { 
@@ -95,19 +514,293 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
     }
   };
 
-  const importJSONData = async (data: any) => {
+  // Columns that identify a row for conflict handling: the chosen match column or the primary key
+  const getKeyColumns = (tableName: string): string[] => {
+    const options = tableOptions[tableName] || DEFAULT_TABLE_OPTIONS;
+    return options.conflictColumns.length > 0
+      ? options.conflictColumns
+      : getPrimaryKeyColumns(targetColumns[tableName] || []);
+  };
+
+  // Progress bars start out at what a resumed import is going to skip
+  const startProgress = (totals: Record<string, number>, resumeFrom: ImportCheckpoint | null, unit: 'rows' | 'statements') => {
+    setTableProgress(Object.fromEntries(Object.entries(totals).map(([table, total]) => [table, {
+      total,
+      done: resumeFrom?.completedTables.includes(table) ? total : resumeFrom?.table === table ? resumeFrom.rowsDone : 0
+    }])));
+    setThroughput({ startedAt: Date.now(), sent: 0, unit });
+  };
+
+  const advanceProgress = (table: string, done: number, sent: number) => {
+    setTableProgress(prev => ({ ...prev, [table]: { ...prev[table], done } }));
+    setThroughput(prev => prev && { ...prev, sent: prev.sent + sent });
+  };
+
+  // The checkpoint an import updates as it goes; null when the file could not be fingerprinted
+  const createProgress = (resumeFrom: ImportCheckpoint | null): ImportCheckpoint | null => {
+    if (resumeFrom) return { ...resumeFrom, completedTables: [...resumeFrom.completedTables] };
+    if (!fileHash) return null;
+    return {
+      id: getCheckpointId(targetUrl, fileHash),
+      targetUrl,
+      fileHash,
+      fileName: selectedFile?.name || '',
+      completedTables: [],
+      table: null,
+      rowsDone: 0,
+      updatedAt: ''
+    };
+  };
+
+  const recordProgress = (progress: ImportCheckpoint | null) => {
+    if (progress) saveCheckpoint(progress).catch(error => console.error('Failed to save import checkpoint:', error));
+  };
+
+  const clearProgress = (progress: ImportCheckpoint | null) => {
+    if (!progress) return;
+    deleteCheckpoint(progress.id).catch(error => console.error('Failed to delete import checkpoint:', error));
+    setCheckpoint(null);
+  };
+
+  // Tables the target table references, qualified like the import's table names
+  const getReferencedTables = (tableName: string, columns = targetColumns[tableName]): string[] =>
+    getForeignKeyEdges({ [tableName]: columns })
+      .map(edge => edge.references)
+      .filter(table => table !== tableName);
+
+  // Sets the references that were written as NULL, now that every row they point to exists
+  const setDeferredReferences = async (
+    deferred: Map<ForeignKeyEdge, DeferredValues>,
+    results: { referencesSet: number; errors: string[] }
+  ) => {
+    for (const [{ table, column, keyColumns }, values] of deferred) {
+      try {
+        for (const { value, keys } of values.values()) {
+          results.referencesSet += await updateRowsByKeys(client!, table, keyColumns, keys, { [column]: value });
+        }
+      } catch (error) {
+        results.errors.push(`Could not set ${table}.${column} after the import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  };
+
+  /**
+   * Counts the target rows each mirrored table would lose and asks once,
+   * before anything is written. Returns the tables that must not be written:
+   * those that cannot be mirrored and, when the deletions are declined, every
+   * table that would lose rows.
+   */
+  const confirmMirrors = async (
+    data: ExportFile,
+    tableNames: string[],
+    results: { errors: string[] }
+  ): Promise<Set<string>> => {
+    const skipped = new Set<string>();
+    const deletions: { tableName: string; missing: number }[] = [];
+
+    for (const tableName of tableNames) {
+      const keyColumns = getKeyColumns(tableName);
+      if (keyColumns.length === 0) {
+        results.errors.push(`Mirror of ${tableName} skipped: the table has no primary key to match rows on`);
+        skipped.add(tableName);
+        continue;
+      }
+      try {
+        const fileKeys = new Set((data.tables[tableName].data || []).map(row => getKeyString(row, keyColumns)));
+        const { rows: targetRows } = await getAllRows(tableName, undefined, 1000, keyColumns);
+        const missing = targetRows.filter(row => !fileKeys.has(getKeyString(row, keyColumns))).length;
+        if (missing > 0) deletions.push({ tableName, missing });
+      } catch (error) {
+        results.errors.push(`Mirror of ${tableName} skipped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        skipped.add(tableName);
+      }
+    }
+
+    if (deletions.length > 0 && !window.confirm(
+      'Mirroring will delete rows that are not in the import file:\n' +
+      deletions.map(({ tableName, missing }) => `${tableName}: ${missing} row(s)`).join('\n') +
+      '\n\nContinue?'
+    )) {
+      deletions.forEach(({ tableName }) => {
+        results.errors.push(`Mirror of ${tableName} cancelled; nothing was written to this table`);
+        skipped.add(tableName);
+      });
+    }
+    return skipped;
+  };
+
+  /**
+   * Deletes the target rows that are missing from the file of each mirrored
+   * table. Runs once every table is written, children before parents, so rows
+   * are only deleted after the rows that referenced them.
+   */
+  const deleteMirroredRows = async (
+    data: ExportFile,
+    mirrorTables: string[],
+    journalTables: ImportJournalTable[],
+    results: { rowsDeleted: number; errors: string[] }
+  ) => {
+    for (const tableName of [...mirrorTables].reverse()) {
+      const keyColumns = getKeyColumns(tableName);
+      try {
+        const fileKeys = new Set((data.tables[tableName].data || []).map(row => getKeyString(row, keyColumns)));
+        const { rows: targetRows } = await getAllRows(tableName, undefined, 1000, keyColumns);
+        const deleteKeys = targetRows
+          .filter(row => !fileKeys.has(getKeyString(row, keyColumns)))
+          .map(row => pickKey(row, keyColumns));
+        if (deleteKeys.length === 0) continue;
+
+        // Tables finished by an interrupted run have no journal entry yet
+        const primaryKey = getPrimaryKeyColumns(targetColumns[tableName] || []);
+        let journalTable = journalTables.find(table => table.table === tableName);
+        if (!journalTable && primaryKey.length > 0) {
+          journalTable = { table: tableName, keyColumns: primaryKey, references: getReferencedTables(tableName), insertedKeys: [], previousRows: [] };
+          journalTables.push(journalTable);
+        }
+        if (journalTable) {
+          journalTable.previousRows = journalTable.previousRows.concat(
+            await fetchRowsByKeys(client!, tableName, keyColumns, deleteKeys)
+          );
+        }
+        results.rowsDeleted += await deleteRowsByKeys(client!, tableName, keyColumns, deleteKeys);
+      } catch (error) {
+        results.errors.push(`Could not delete the rows missing from ${tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  };
+
+  // Adds the rows one write changed to the journal entry of its table; tables whose rows were not all tracked are named too
+  const journalWrite = (
+    journalTables: ImportJournalTable[],
+    untrackedTables: string[],
+    tableName: string,
+    columns: ColumnInfo[],
+    { inserted, insertedKeys, overwrittenRows, tracked }: BatchInsertResult
+  ) => {
+    if (!tracked && inserted > 0 && !untrackedTables.includes(tableName)) untrackedTables.push(tableName);
+    if (insertedKeys.length === 0 && overwrittenRows.length === 0) return;
+
+    const primaryKey = getPrimaryKeyColumns(columns);
+    let journalTable = journalTables.find(table => table.table === tableName);
+    if (!journalTable) {
+      journalTable = { table: tableName, keyColumns: primaryKey, references: getReferencedTables(tableName, columns), insertedKeys: [], previousRows: [] };
+      journalTables.push(journalTable);
+    }
+    journalTable.insertedKeys = journalTable.insertedKeys.concat(insertedKeys);
+    journalTable.previousRows = journalTable.previousRows.concat(overwrittenRows);
+  };
+
+  // The journal only makes the import undoable; failing to store it does not fail the import
+  const recordJournal = async (
+    createdAt: string,
+    tables: ImportJournalTable[],
+    untrackedTables: string[],
+    untrackedStatements = 0
+  ) => {
+    const written = tables.filter(table => table.insertedKeys.length > 0 || table.previousRows.length > 0);
+    if (written.length === 0 && untrackedTables.length === 0 && untrackedStatements === 0) return;
+
+    // Restored rows must leave out the columns Postgres fills in; only the catalog tells which they are
+    const restored = written.filter(table => table.previousRows.length > 0);
+    if (sqlAvailable && restored.length > 0) {
+      try {
+        const catalog = await loadTableCatalog(executeSQL, restored.map(table => table.table));
+        restored.forEach(table => {
+          const info = catalog[table.table];
+          table.generatedColumns = [
+            ...info.generatedColumns,
+            ...Object.keys(info.identityColumns).filter(column => info.identityColumns[column] === 'ALWAYS')
+          ];
+        });
+      } catch (error) {
+        console.error('Failed to read generated columns:', error);
+      }
+    }
+
+    const next: ImportJournal = {
+      id: `${targetUrl}|${createdAt}`,
+      targetUrl,
+      fileName: selectedFile?.name || '',
+      createdAt,
+      tables: written,
+      untrackedTables,
+      untrackedStatements
+    };
+    setJournal(next);
+    try {
+      await saveImportJournal(next);
+    } catch (error) {
+      console.error('Failed to save import journal:', error);
+    }
+  };
+
+  /**
+   * Writes the rows of each table in chunks. Progress is checkpointed after
+   * every chunk; `resumeFrom` skips the tables and rows an interrupted run of
+   * the same file already sent. The checkpoint is removed once the loop has
+   * gone through every table; cancelling stops after the current chunk.
+   * Inserted keys and overwritten rows are journaled for undo. Tables are
+   * written after the tables they reference; self-references and cycles are
+   * written as NULL and set at the end, before mirror deletions, which are
+   * confirmed for all tables at once before the first write.
+   */
+  const importJSONData = async (
+    data: ExportFile,
+    resumeFrom: ImportCheckpoint | null,
+    signal: AbortSignal
+  ): Promise<ImportResult> => {
     const results = {
       tablesProcessed: 0,
       rowsInserted: 0,
+      rowsSkipped: 0,
+      rowsDeleted: 0,
+      rowsResumed: 0,
+      referencesSet: 0,
+      sequencesReset: 0,
+      cancelled: false,
+      failedRows: [] as NonNullable<ImportResult['failedRows']>,
       errors: [] as string[]
     };
 
-    for (const [tableName, tableInfo] of Object.entries(data)) {
+    const { order, deferred } = sortTablesByDependencies(Object.keys(data.tables), getForeignKeyEdges(targetColumns));
+    const progress = createProgress(resumeFrom);
+    startProgress(
+      Object.fromEntries(order.map(tableName => [tableName, data.tables[tableName].data?.length || 0])),
+      resumeFrom,
+      'rows'
+    );
+    let completed = true;
+    const createdAt = new Date().toISOString();
+    const journalTables: ImportJournalTable[] = [];
+    const untrackedTables: string[] = [];
+    // Mirrored tables whose missing rows are deleted once every table is written
+    const mirrorTables: string[] = [];
+    const skippedMirrors = await confirmMirrors(
+      data,
+      order.filter(tableName =>
+        (tableOptions[tableName] || DEFAULT_TABLE_OPTIONS).strategy === 'mirror' &&
+        !resumeFrom?.completedTables.includes(tableName) &&
+        Array.isArray(data.tables[tableName].data)
+      ),
+      results
+    );
+
+    for (const tableName of order) {
+      const tableData = data.tables[tableName];
+      if (signal.aborted) {
+        completed = false;
+        break;
+      }
+      if (resumeFrom?.completedTables.includes(tableName)) {
+        results.rowsResumed += tableData.data?.length || 0;
+        if ((tableOptions[tableName] || DEFAULT_TABLE_OPTIONS).strategy === 'mirror') mirrorTables.push(tableName);
+        continue;
+      }
+      const skipRows = resumeFrom?.table === tableName ? resumeFrom.rowsDone : 0;
+
       try {
         results.tablesProcessed++;
         
-        const tableData = tableInfo as any;
-        
         // If schema is included, create/update table structure
         if (tableData.schema && Array.isArray(tableData.schema)) {
           try {
@@ -122,65 +815,471 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
         if (tableData.data && Array.isArray(tableData.data)) {
           console.log(`Importing ${tableData.data.length} rows into ${tableName}`);
           
-          for (const row of tableData.data) {
-            try {
-              const { error } = await client!.from(tableName).insert(row);
-              if (error) {
-                let errorMsg = `Insert error in ${tableName}: ${error.message}`;
-                
-                // Special handling for RLS policy errors
-                if (error.code === '42P17') {
-                  errorMsg = `RLS Policy Error in ${tableName}: ${error.message}. This table has Row Level Security policies that prevent data insertion.`;
-                }
-                
-                results.errors.push(errorMsg);
-              } else {
-                results.rowsInserted++;
-              }
-            } catch (insertError) {
-              results.errors.push(`Insert error in ${tableName}: ${insertError}`);
+          const options = tableOptions[tableName] || DEFAULT_TABLE_OPTIONS;
+          const primaryKey = getPrimaryKeyColumns(targetColumns[tableName] || []);
+          const journalTable: ImportJournalTable | null = primaryKey.length > 0
+            ? { table: tableName, keyColumns: primaryKey, references: getReferencedTables(tableName), insertedKeys: [], previousRows: [] }
+            : null;
+
+          if (options.strategy === 'mirror') {
+            if (skippedMirrors.has(tableName)) continue;
+            mirrorTables.push(tableName);
+          }
+
+          const deferredColumns = deferred.filter(edge => edge.table === tableName).map(edge => edge.column);
+          const rowsToWrite = tableData.data.slice(skipRows).map(row =>
+            deferredColumns.some(column => row[column] !== null && row[column] !== undefined)
+              ? { ...row, ...Object.fromEntries(deferredColumns.map(column => [column, null])) }
+              : row
+          );
+          let sent = 0;
+          const { inserted, skipped, failures, insertedKeys, overwrittenRows, tracked } = await insertInChunks(client!, tableName, rowsToWrite, {
+            chunkSize,
+            strategy: options.strategy,
+            conflictColumns: options.conflictColumns,
+            signal,
+            trackKeys: journalTable?.keyColumns,
+            onChunk: (_inserted, _failed, processed) => {
+              advanceProgress(tableName, skipRows + processed, processed - sent);
+              sent = processed;
+              if (!progress) return;
+              progress.table = tableName;
+              progress.rowsDone = skipRows + processed;
+              recordProgress(progress);
             }
+          });
+          results.rowsInserted += inserted;
+          results.rowsSkipped += skipped;
+          results.rowsResumed += skipRows;
+          results.failedRows.push(...failures.map(failure => ({ ...failure, index: failure.index + skipRows })));
+          if (journalTable) {
+            journalTable.insertedKeys = insertedKeys;
+            journalTable.previousRows = overwrittenRows;
+            journalTables.push(journalTable);
+          }
+          if (!tracked && inserted > 0) untrackedTables.push(tableName);
+
+          if (failures.length > 0) {
+            results.errors.push(`${failures.length} row(s) could not be written to ${tableName}: ${failures[0].error}`);
+          }
+
+          // Cancelled part-way through the table; mirror deletions wait until every table is in
+          if (sent < rowsToWrite.length) {
+            completed = false;
+            break;
+          }
+
+          if (progress) {
+            progress.completedTables.push(tableName);
+            progress.table = null;
+            progress.rowsDone = 0;
+            recordProgress(progress);
           }
         }
       } catch (tableError) {
+        // Every later request would fail too; stop and keep the checkpoint for a resume
+        if (tableError instanceof ConnectionLostError) {
+          results.errors.push(tableError.message);
+          completed = false;
+          break;
+        }
         results.errors.push(`Table error for ${tableName}: ${tableError}`);
       }
     }
 
+    // An interrupted import sets them when it is resumed, once the rest of the rows are in
+    if (completed) {
+      await setDeferredReferences(new Map(deferred.map(edge => {
+        const values: DeferredValues = new Map();
+        (data.tables[edge.table].data || []).forEach(row => addDeferredValue(values, row, edge));
+        return [edge, values];
+      })), results);
+    }
+    if (completed) await deleteMirroredRows(data, mirrorTables, journalTables, results);
+
+    if (completed) clearProgress(progress);
+    results.cancelled = !completed && signal.aborted;
+    await recordJournal(createdAt, journalTables, untrackedTables);
+
+    if (resetSequences && sqlAvailable) {
+      await resetTableSequences(Object.keys(data.tables), results);
+    }
+    return results;
+  };
+
+  /**
+   * Imports a streamed JSON file: rows are mapped and written in chunks while
+   * the file is read, so only one chunk is held at a time. Checkpoints and
+   * `resumeFrom` count rows of the source tables. Mirroring needs every key
+   * of the file up front and is not available here. Written rows are
+   * journaled for undo as in importJSONData, up to MAX_JOURNAL_ROWS; larger
+   * imports cannot be undone.
+   *
+   * Tables are written in foreign key order. The file is read once when its
+   * tables already come in that order, and again for every table that comes
+   * too early otherwise. Deferred references are written as NULL; their
+   * values and row keys are kept until every table is in.
+   */
+  const importStreamedData = async (
+    source: StreamSource,
+    resumeFrom: ImportCheckpoint | null,
+    signal: AbortSignal
+  ): Promise<ImportResult> => {
+    const results = {
+      tablesProcessed: 0,
+      rowsInserted: 0,
+      rowsSkipped: 0,
+      rowsResumed: 0,
+      referencesSet: 0,
+      sequencesReset: 0,
+      cancelled: false,
+      failedRows: [] as NonNullable<ImportResult['failedRows']>,
+      errors: [] as string[]
+    };
+    const progress = createProgress(resumeFrom);
+    startProgress(source.rowCounts, resumeFrom, 'rows');
+
+    // Source tables in file order, as the scan met them
+    const sourceTables = Object.keys(source.rowCounts);
+    const targetOf = (sourceTable: string): string | null =>
+      mapping[sourceTable] ? mapping[sourceTable].target : sourceTable;
+    const targets = Array.from(new Set(sourceTables.map(targetOf).filter((target): target is string => !!target)));
+    const { order, deferred } = sortTablesByDependencies(targets, getForeignKeyEdges(targetColumns));
+    const deferredValues = new Map(deferred.map(edge => [edge, new Map() as DeferredValues]));
+
+    const passes = getReadPasses(sourceTables, sourceTables
+      .filter(table => targetOf(table))
+      .sort((a, b) => order.indexOf(targetOf(a)!) - order.indexOf(targetOf(b)!)));
+    // Tables that are not imported only count towards progress
+    passes[0] = [...(passes[0] || []), ...sourceTables.filter(table => !targetOf(table))];
+    const tablesWritten = new Set<string>();
+    const createdAt = new Date().toISOString();
+    const journalTables: ImportJournalTable[] = [];
+    const untrackedTables: string[] = [];
+    // Set once the journal grows past MAX_JOURNAL_ROWS; later rows are written without tracking
+    let journalFull = false;
+
+    // Rows of one source table waiting to be written; `startIndex` is the source index of the first
+    let pending: { sourceTable: string; target: string; rows: Record<string, unknown>[]; startIndex: number } | null = null;
+    let currentTable: { name: string; target: string | null; failures: number; firstError?: string } | null = null;
+
+    const flush = async () => {
+      if (!pending || pending.rows.length === 0) return;
+      // Rows still waiting when the import is cancelled are dropped; the checkpoint does not include them
+      signal.throwIfAborted();
+      const { sourceTable, target, rows, startIndex } = pending;
+      pending = null;
+
+      const options = tableOptions[target] || DEFAULT_TABLE_OPTIONS;
+      const columns = targetColumns[target] || [];
+      const primaryKey = getPrimaryKeyColumns(columns);
+      const written = await insertInChunks(client!, target, rows, {
+        chunkSize,
+        strategy: options.strategy,
+        conflictColumns: options.conflictColumns,
+        trackKeys: primaryKey.length > 0 && !journalFull ? primaryKey : undefined
+      });
+      journalWrite(journalTables, untrackedTables, target, columns, written);
+      if (!journalFull && countJournalRows(journalTables) > MAX_JOURNAL_ROWS) {
+        journalFull = true;
+        journalTables.forEach(({ table }) => {
+          if (!untrackedTables.includes(table)) untrackedTables.push(table);
+        });
+        journalTables.length = 0;
+        results.errors.push(
+          `More than ${MAX_JOURNAL_ROWS.toLocaleString()} rows were written, too many to keep for undo; this import cannot be undone`
+        );
+      }
+      const { inserted, skipped, failures } = written;
+      results.rowsInserted += inserted;
+      results.rowsSkipped += skipped;
+      if (inserted > 0) tablesWritten.add(target);
+      results.failedRows.push(...failures.map(failure => ({ ...failure, index: startIndex + failure.index })));
+
+      if (currentTable && failures.length > 0) {
+        currentTable.failures += failures.length;
+        currentTable.firstError = currentTable.firstError || failures[0].error;
+      }
+      advanceProgress(sourceTable, startIndex + rows.length, rows.length);
+      if (progress) {
+        progress.table = sourceTable;
+        progress.rowsDone = startIndex + rows.length;
+        recordProgress(progress);
+      }
+    };
+
+    const finishTable = async () => {
+      if (!currentTable) return;
+      await flush();
+
+      const { name, target, failures, firstError } = currentTable;
+      currentTable = null;
+      if (target && failures > 0) {
+        results.errors.push(`${failures} row(s) could not be written to ${target}: ${firstError}`);
+      }
+      advanceProgress(name, source.rowCounts[name] || 0, 0);
+      if (progress && !progress.completedTables.includes(name)) {
+        progress.completedTables.push(name);
+        progress.table = null;
+        progress.rowsDone = 0;
+        recordProgress(progress);
+      }
+    };
+
+    let completed = false;
+    try {
+      for (const pass of passes) {
+        await streamJSONRows(source.file, source.format, source.tableName, {
+          onRow: async (sourceTable, row, index) => {
+            signal.throwIfAborted();
+            if (!pass.includes(sourceTable)) return;
+            if (currentTable?.name !== sourceTable) {
+              await finishTable();
+
+              let target = targetOf(sourceTable);
+              if (target && (tableOptions[target] || DEFAULT_TABLE_OPTIONS).strategy === 'mirror') {
+                results.errors.push(`Mirror of ${target} skipped: files over 10MB are streamed, and mirroring needs the whole file in memory`);
+                target = null;
+              }
+              currentTable = { name: sourceTable, target, failures: 0 };
+              if (target) results.tablesProcessed++;
+            }
+
+            const { target } = currentTable;
+            // scanJSONFile has checked that every row is an object
+            let mapped = target
+              ? mapRow(row as Record<string, unknown>, mapping[sourceTable] || { target: sourceTable, columns: {}, fills: {} })
+              : null;
+            // Rows an interrupted run wrote still need their deferred references set
+            deferredValues.forEach((values, edge) => {
+              if (!mapped || edge.table !== target || mapped[edge.column] === null || mapped[edge.column] === undefined) return;
+              addDeferredValue(values, mapped, edge);
+              mapped = { ...mapped, [edge.column]: null };
+            });
+
+            if (
+              resumeFrom?.completedTables.includes(sourceTable) ||
+              (resumeFrom?.table === sourceTable && index < resumeFrom.rowsDone)
+            ) {
+              results.rowsResumed++;
+              return;
+            }
+            if (!target || !mapped) return;
+
+            if (!pending) {
+              pending = { sourceTable, target, rows: [], startIndex: index };
+            }
+            pending.rows.push(mapped);
+            if (pending.rows.length >= chunkSize) await flush();
+          }
+        }, signal);
+        await finishTable();
+      }
+      completed = true;
+    } catch (error) {
+      if (error instanceof ConnectionLostError) {
+        results.errors.push(error.message);
+      } else if (!signal.aborted) {
+        // The chunks written before the error can still be undone
+        await recordJournal(createdAt, journalTables, untrackedTables);
+        throw error;
+      }
+    }
+
+    // An interrupted import sets them when it is resumed, once the rest of the rows are in
+    if (completed) await setDeferredReferences(deferredValues, results);
+    if (completed) clearProgress(progress);
+    results.cancelled = !completed && signal.aborted;
+    await recordJournal(createdAt, journalTables, untrackedTables);
+
+    if (resetSequences && sqlAvailable) {
+      await resetTableSequences(Array.from(tablesWritten), results);
+    }
     return results;
   };
 
-  const importSQLData = async (sqlContent: string) => {
+  /**
+   * Runs INSERT ... VALUES statements as PostgREST inserts. Consecutive
+   * statements for the same table are batched, so a file with one INSERT per
+   * row still goes out in chunks. Other statements run through executeSQL
+   * when an SQL provider is available and are reported as skipped otherwise,
+   * as are INSERTs with OVERRIDING ... VALUE. Inserted rows are journaled for
+   * undo; the other statements can only be counted.
+   */
+  const importSQLData = async (statements: SQLStatement[], signal: AbortSignal): Promise<ImportResult> => {
     const results = {
       statementsExecuted: 0,
+      rowsInserted: 0,
+      rowsSkipped: 0,
+      statementsSkipped: [] as NonNullable<ImportResult['statementsSkipped']>,
+      sequencesReset: 0,
+      cancelled: false,
+      failedRows: [] as NonNullable<ImportResult['failedRows']>,
       errors: [] as string[]
     };
+    const progressKey = selectedFile?.name || 'SQL';
+    startProgress({ [progressKey]: statements.length }, null, 'statements');
+    const tableColumns: Record<string, ColumnInfo[]> = {};
+    const tablesWritten = new Set<string>();
+    const createdAt = new Date().toISOString();
+    const journalTables: ImportJournalTable[] = [];
+    const untrackedTables: string[] = [];
+    let untrackedStatements = 0;
+
+    let batch: { table: string; strategy: 'fail' | 'ignore'; rows: Record<string, unknown>[]; lines: number[] } | null = null;
+
+    const flushBatch = async () => {
+      if (!batch) return;
+      const { table, strategy, rows, lines } = batch;
+      batch = null;
+
+      const columns = await getTableColumns(table);
+      const primaryKey = getPrimaryKeyColumns(columns);
+      const written = await insertInChunks(client!, table, rows, {
+        chunkSize,
+        strategy,
+        signal,
+        trackKeys: primaryKey.length > 0 ? primaryKey : undefined
+      });
+      journalWrite(journalTables, untrackedTables, table, columns, written);
+      const { inserted, skipped, failures } = written;
+      results.rowsInserted += inserted;
+      results.rowsSkipped += skipped;
+      if (inserted > 0) tablesWritten.add(table);
+      results.failedRows.push(...failures.map(failure => ({ ...failure, line: lines[failure.index] })));
+
+      if (failures.length > 0) {
+        results.errors.push(
+          `Line ${lines[failures[0].index]}: ${failures.length} row(s) could not be inserted into ${table}: ${failures[0].error}`
+        );
+      }
+    };
+
+    const getTableColumns = async (table: string): Promise<ColumnInfo[]> => {
+      if (!tableColumns[table]) {
+        try {
+          tableColumns[table] = [...await getColumns(table)].sort((a, b) => a.ordinal_position - b.ordinal_position);
+        } catch {
+          tableColumns[table] = [];
+        }
+      }
+      return tableColumns[table];
+    };
+
+    for (const [index, statement] of statements.entries()) {
+      if (signal.aborted) break;
+      advanceProgress(progressKey, index, index > 0 ? 1 : 0);
+
+      const lines = statement.startLine === statement.endLine
+        ? `Line ${statement.startLine}`
+        : `Lines ${statement.startLine}-${statement.endLine}`;
+
+      // PostgREST cannot override identity columns, so these INSERTs run as written like any other statement
+      let overriding: ParsedInsert['overriding'] = null;
+      if (statement.type === 'insert') {
+        try {
+          const insert = parseInsertStatement(statement);
+          overriding = insert.overriding;
+          if (!overriding) {
+            const targetColumns = await getTableColumns(insert.table);
+            // INSERTs without a column list use the table's column order
+            const columns = insert.columns || targetColumns.map(col => col.column_name);
+            if (insert.rows.some(row => row.length > columns.length)) {
+              throw new Error(`More values than the ${columns.length} columns of ${insert.table}`);
+            }
+            const rows = toRowObjects(parseJSONLiterals(insert, columns, targetColumns), columns);
+
+            if (!batch || batch.table !== insert.table || batch.strategy !== insert.onConflict) {
+              await flushBatch();
+              batch = { table: insert.table, strategy: insert.onConflict, rows: [], lines: [] };
+            }
+            batch.rows.push(...rows);
+            batch.lines.push(...rows.map(() => statement.startLine));
+            results.statementsExecuted++;
+            continue;
+          }
+        } catch (error) {
+          results.errors.push(`${lines}: Could not translate INSERT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          continue;
+        }
+      }
 
-    // Split SQL into individual statements
-    const statements = sqlContent
-      .split(';')
-      .map(stmt => stmt.trim())
-      .filter(stmt => stmt.length > 0 && !stmt.startsWith('--'));
+      // Later statements may depend on the rows inserted so far
+      await flushBatch();
+
+      if (statement.type === 'transaction' || statement.type === 'set') {
+        results.statementsSkipped.push({
+          line: statement.startLine,
+          keyword: statement.keyword,
+          reason: 'Session and transaction statements have no effect when statements run as separate requests'
+        });
+        continue;
+      }
+
+      if (!sqlAvailable) {
+        results.statementsSkipped.push({
+          line: statement.startLine,
+          keyword: statement.keyword,
+          reason: overriding
+            ? `INSERT ... OVERRIDING ${overriding.toUpperCase()} VALUE writes identity columns, which needs an SQL provider (see Settings)`
+            : 'Only INSERT statements can run without an SQL provider (see Settings)'
+        });
+        continue;
+      }
 
-    for (const statement of statements) {
       try {
-        await executeSQL(statement);
+        await executeSQL(statement.sql);
         results.statementsExecuted++;
+        if (statement.type !== 'select') untrackedStatements++;
       } catch (error) {
-        let errorMsg = `SQL Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
-        
+        let errorMsg = `${lines}: SQL Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+
         // Special handling for RLS policy errors
         if (error instanceof Error && error.message.includes('infinite recursion detected in policy')) {
-          errorMsg = `RLS Policy Error: ${error.message}. Row Level Security policies are preventing this operation.`;
+          errorMsg = `${lines}: RLS Policy Error: ${error.message}. Row Level Security policies are preventing this operation.`;
         }
-        
+
         results.errors.push(errorMsg);
       }
     }
 
+    await flushBatch();
+    if (!signal.aborted) advanceProgress(progressKey, statements.length, 1);
+    results.cancelled = signal.aborted;
+    await recordJournal(createdAt, journalTables, untrackedTables, untrackedStatements);
+
+    if (resetSequences && sqlAvailable) {
+      await resetTableSequences(Array.from(tablesWritten), results);
+    }
     return results;
   };
 
+  // Moves serial and identity sequences past the ids that were inserted explicitly
+  const resetTableSequences = async (tableNames: string[], results: { sequencesReset: number; errors: string[] }) => {
+    for (const tableName of tableNames) {
+      let columns = targetColumns[tableName];
+      if (!columns) {
+        try {
+          columns = await getColumns(tableName);
+        } catch {
+          continue;
+        }
+      }
+
+      // Identity columns have no default in the schema, so every integer key is tried; keys without a sequence return no row
+      for (const column of columns.filter(col => col.is_primary_key && col.json_type === 'integer')) {
+        try {
+          const { rows } = await executeSQL(getSequenceResetSQL(tableName, column.column_name));
+          if (rows.length > 0) results.sequencesReset++;
+        } catch (error) {
+          results.errors.push(
+            `Could not reset the sequence of ${tableName}.${column.column_name}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+    }
+  };
+
   const handleImport = async () => {
     if (!selectedFile) {
       setErrorMessage('Please select a file to import.');
@@ -194,31 +1293,40 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
       return;
     }
 
-    setImportStatus('validating');
-    setErrorMessage('');
-    setImportResults(null);
-
-    const validation = await validateFile(selectedFile);
-    if (!validation.valid) {
+    if (!validation || !validation.valid) {
+      setErrorMessage('The selected file could not be validated. Please choose another file.');
       setImportStatus('error');
-      setErrorMessage(validation.error || 'Validation failed');
       return;
     }
 
+    setErrorMessage('');
+    setImportResults(null);
+    setUndoResult(null);
     setImportStatus('importing');
+    const controller = new AbortController();
+    abortController.current = controller;
+    setCancelling(false);
     
     try {
       let results;
       
-      if (selectedFile.name.endsWith('.json')) {
-        results = await importJSONData(validation.data);
+      if (validation.stream) {
+        results = await importStreamedData(validation.stream, resumeImport ? checkpoint : null, controller.signal);
+      } else if (validation.format === 'json' || validation.format === 'csv') {
+        results = await importJSONData(prepareFile(), resumeImport ? checkpoint : null, controller.signal);
       } else {
-        results = await importSQLData(validation.data);
+        results = await importSQLData(validation.data as SQLStatement[], controller.signal);
       }
       
       setImportResults(results);
       
-      if (results.errors.length === 0) {
+      if (results.cancelled) {
+        setImportStatus('error');
+        setErrorMessage(
+          'Import cancelled. The rows below were written before it stopped' +
+          (fileHash && validation.format !== 'sql' ? '; select the file again to resume.' : '.')
+        );
+      } else if (results.errors.length === 0) {
         setImportStatus('success');
       } else {
         setImportStatus('error');
@@ -226,17 +1334,117 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
       }
     } catch (error) {
       setImportStatus('error');
-      setErrorMessage('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      setErrorMessage(
+        'Import failed: ' + (error instanceof Error ? error.message : 'Unknown error') +
+        (error instanceof ConnectionLostError && fileHash ? '. Progress was saved; select the file again to resume.' : '')
+      );
+    } finally {
+      abortController.current = null;
+      setThroughput(null);
+      setCancelling(false);
     }
   };
 
+  const handleUndo = async () => {
+    if (!client || !journal) return;
+
+    const insertedRows = journal.tables.reduce((sum, table) => sum + table.insertedKeys.length, 0);
+    const previousRows = journal.tables.reduce((sum, table) => sum + table.previousRows.length, 0);
+    if (!window.confirm(
+      `Undo the import of ${journal.fileName || 'this file'}? ${insertedRows} inserted row(s) will be deleted` +
+      (previousRows > 0 ? ` and ${previousRows} overwritten or deleted row(s) restored.` : '.')
+    )) {
+      return;
+    }
+
+    setUndoing(true);
+    setUndoResult(null);
+    try {
+      const result = await undoImport(client, journal);
+      setUndoResult(result);
+      if (result.errors.length === 0) {
+        setJournal(null);
+        await deleteImportJournal(journal.id);
+      }
+    } catch (error) {
+      setUndoResult({
+        rowsDeleted: 0,
+        rowsRestored: 0,
+        errors: ['Failed to undo import: ' + (error instanceof Error ? error.message : 'Unknown error')]
+      });
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  const handleDiscardJournal = () => {
+    if (!journal) return;
+    setJournal(null);
+    setUndoResult(null);
+    deleteImportJournal(journal.id).catch(error => console.error('Failed to delete import journal:', error));
+  };
+
+  // The import stops once the batch in flight has been written
+  const handleCancel = () => {
+    abortController.current?.abort();
+    setCancelling(true);
+  };
+
+  // Compares the file with the target tables using only read requests
+  const handleDryRun = async () => {
+    if (!validation || validation.format === 'sql') return;
+
+    setErrorMessage('');
+    setDryRunReport(null);
+    setImportStatus('checking');
+
+    const report: DryRunResult = {
+      createdAt: new Date().toISOString(),
+      target: { url: targetUrl },
+      tables: [],
+      errors: []
+    };
+
+    const mappedFile = prepareFile();
+    for (const [tableName, tableData] of Object.entries(mappedFile.tables)) {
+      const rows = tableData.data || [];
+      const columns = targetColumns[tableName] ?? null;
+      const keyColumns = columns ? getKeyColumns(tableName) : [];
+      const existingKeys = new Set<string>();
+
+      if (keyColumns.length > 0 && rows.length > 0) {
+        try {
+          const { rows: targetRows } = await getAllRows(tableName, undefined, 1000, keyColumns);
+          targetRows.forEach(row => existingKeys.add(getKeyString(row, keyColumns)));
+        } catch (error) {
+          report.errors.push(`Could not read existing keys of ${tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      report.tables.push(analyzeTable(tableName, rows, columns, keyColumns, existingKeys));
+    }
+
+    setDryRunReport(report);
+    setImportStatus('idle');
+  };
+
   const resetImport = () => {
     setSelectedFile(null);
+    setDryRunReport(null);
+    setMapping({});
+    setSourceColumns({});
+    setValidation(null);
+    setTargetColumns({});
+    setTableOptions({});
+    setFileHash(null);
+    setCheckpoint(null);
     setImportStatus('idle');
     setErrorMessage('');
     setImportResults(null);
   };
 
+  const preview = getPreview();
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       <div className="mb-8">
@@ -257,20 +1465,25 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
           {importResults && (
             <div className="bg-gray-50 rounded-lg p-4 mb-6 text-left">
               <h4 className="font-medium text-gray-900 mb-2">Import Summary:</h4>
-              <ul className="text-sm text-gray-600 space-y-1">
-                {importResults.tablesProcessed && (
-                  <li>• Tables processed: {importResults.tablesProcessed}</li>
-                )}
-                {importResults.rowsInserted && (
-                  <li>• Rows inserted: {importResults.rowsInserted}</li>
-                )}
-                {importResults.statementsExecuted && (
-                  <li>• SQL statements executed: {importResults.statementsExecuted}</li>
-                )}
-              </ul>
+              <ImportSummaryList results={importResults} />
+              {importResults.statementsSkipped && importResults.statementsSkipped.length > 0 && (
+                <SkippedStatementList statements={importResults.statementsSkipped} />
+              )}
             </div>
           )}
           
+          {(journal || undoResult) && (
+            <div className="mb-6">
+              <ImportUndoPanel
+                journal={journal}
+                undoing={undoing}
+                result={undoResult}
+                onUndo={handleUndo}
+                onDiscard={handleDiscardJournal}
+              />
+            </div>
+          )}
+
           <button
             onClick={resetImport}
             className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -281,6 +1494,16 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="space-y-6">
+            {(journal || undoResult) && importStatus !== 'importing' && (
+              <ImportUndoPanel
+                journal={journal}
+                undoing={undoing}
+                result={undoResult}
+                onUndo={handleUndo}
+                onDiscard={handleDiscardJournal}
+              />
+            )}
+
             <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Upload File</h3>
               
@@ -299,13 +1522,13 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
                   Drop your file here
                 </p>
                 <p className="text-gray-600 mb-4">
-                  Supports JSON and SQL files (max 10MB enforced)
+                  Supports JSON, NDJSON, SQL, CSV/TSV and ZIP archive files (JSON and ZIP of any size; SQL and CSV up to 10MB)
                 </p>
                 <label className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 cursor-pointer transition-colors">
                   <span>Choose File</span>
                   <input
                     type="file"
-                    accept=".json,.sql"
+                    accept=".json,.ndjson,.jsonl,.sql,.csv,.tsv,.zip"
                     onChange={handleFileSelect}
                     className="hidden"
                   />
@@ -339,7 +1562,34 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
                   <div className="flex items-start gap-3">
                     <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
                     <div>
-                      <span className="text-red-700 text-sm font-medium">{errorMessage}</span>
+                      <span className="text-red-700 text-sm font-medium whitespace-pre-line">{errorMessage}</span>
+                      {importResults?.cancelled && (
+                        <div className="mt-2">
+                          <ImportSummaryList results={importResults} />
+                        </div>
+                      )}
+                      {importResults?.failedRows && importResults.failedRows.length > 0 && (
+                        <div className="mt-2">
+                          <details className="text-xs">
+                            <summary className="cursor-pointer text-red-600 hover:text-red-700">
+                              View failed rows ({importResults.failedRows.length} rows)
+                            </summary>
+                            <ul className="mt-2 space-y-1 text-red-600">
+                              {importResults.failedRows.slice(0, 20).map((failure, index) => (
+                                <li key={index}>
+                                  • {failure.table} {failure.line ? `line ${failure.line}` : `row #${failure.index}`}: {failure.error}
+                                </li>
+                              ))}
+                              {importResults.failedRows.length > 20 && (
+                                <li>• ... and {importResults.failedRows.length - 20} more rows</li>
+                              )}
+                            </ul>
+                          </details>
+                        </div>
+                      )}
+                      {importResults?.statementsSkipped && importResults.statementsSkipped.length > 0 && (
+                        <SkippedStatementList statements={importResults.statementsSkipped} />
+                      )}
                       {importResults && importResults.errors && importResults.errors.length > 0 && (
                         <div className="mt-2">
                           <details className="text-xs">
@@ -381,9 +1631,182 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
                   </div>
                 </div>
 
+                {validation?.stream && (
+                  <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+                    <p className="font-medium">Large file: rows are read while they are imported</p>
+                    <p className="text-xs text-gray-600 mt-1">
+                      {Object.entries(validation.stream.rowCounts)
+                        .map(([tableName, count]) => `${tableName}: ${count.toLocaleString()} rows`)
+                        .join(' • ')}
+                    </p>
+                    <p className="text-xs text-gray-600 mt-1">
+                      Dry run and the mirror strategy need the whole file in memory and are not available.
+                    </p>
+                  </div>
+                )}
+
+                {checkpoint && (
+                  <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                    <div className="flex items-start gap-3">
+                      <History className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-blue-800">
+                          An earlier import of this file stopped on {new Date(checkpoint.updatedAt).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-blue-700 mt-1">
+                          {checkpoint.completedTables.length} table{checkpoint.completedTables.length !== 1 ? 's' : ''} finished
+                          {checkpoint.table && `, ${checkpoint.rowsDone} rows of ${checkpoint.table} sent`}.
+                          Keep the same mapping when resuming.
+                        </p>
+                        <div className="flex items-center gap-4 mt-2">
+                          <label className="flex items-center gap-2 text-sm text-blue-800">
+                            <input
+                              type="checkbox"
+                              checked={resumeImport}
+                              onChange={(e) => setResumeImport(e.target.checked)}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                            />
+                            Resume from the checkpoint
+                          </label>
+                          <button
+                            onClick={() => {
+                              deleteCheckpoint(checkpoint.id).catch(error => console.error('Failed to delete import checkpoint:', error));
+                              setCheckpoint(null);
+                            }}
+                            className="text-sm text-blue-700 underline hover:text-blue-800"
+                          >
+                            Start over
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {validation?.csv && (
+                  <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      Delimiter
+                      <select
+                        value={validation.csv.delimiter}
+                        onChange={(e) => handleCSVSettingsChange({ delimiter: e.target.value })}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        {CSV_DELIMITERS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={validation.csv.hasHeader}
+                        onChange={(e) => handleCSVSettingsChange({ hasHeader: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      First row is a header
+                    </label>
+                  </div>
+                )}
+
+                {(validation?.format === 'json' || validation?.format === 'csv') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Map tables and columns
+                    </label>
+                    <MappingPanel
+                      sourceColumns={sourceColumns}
+                      targetTables={tables}
+                      targetColumns={targetColumns}
+                      mapping={mapping}
+                      onChange={handleMappingChange}
+                    />
+                  </div>
+                )}
+
+                {preview && (
+                  <ImportPreview
+                    tableName={preview.tableName}
+                    rows={preview.rows}
+                    totalRows={preview.totalRows}
+                    targetColumns={targetColumns[preview.tableName] ?? null}
+                  />
+                )}
+
+                {(validation?.format === 'json' || validation?.format === 'csv') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      When rows already exist
+                    </label>
+                    <ConflictOptionsPanel
+                      tables={getMappedTables(mapping)}
+                      columns={targetColumns}
+                      options={tableOptions}
+                      onChange={(table, options) => setTableOptions(prev => ({ ...prev, [table]: options }))}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Rows per insert request
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10000}
+                    value={chunkSize}
+                    onChange={(e) => setChunkSize(Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Failing batches are split automatically to find the rows that cause the error.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={resetSequences && sqlAvailable}
+                      disabled={!sqlAvailable}
+                      onChange={(e) => setResetSequences(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    Reset sequences after import
+                  </label>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {sqlAvailable
+                      ? 'Moves serial and identity primary keys past the imported ids.'
+                      : 'Requires SQL execution, which can be enabled under Settings.'}
+                  </p>
+                </div>
+
+                {(validation?.format === 'json' || validation?.format === 'csv') && !validation.stream && (
+                  <button
+                    onClick={handleDryRun}
+                    disabled={importStatus === 'checking' || importStatus === 'importing'}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {importStatus === 'checking' ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+                        Checking...
+                      </>
+                    ) : (
+                      <>
+                        <ClipboardCheck className="w-4 h-4" />
+                        Dry Run (no changes)
+                      </>
+                    )}
+                  </button>
+                )}
+
+                {dryRunReport && <DryRunReportPanel report={dryRunReport} />}
+
                 <button
                   onClick={handleImport}
-                  disabled={!selectedFile || importStatus === 'validating' || importStatus === 'importing'}
+                  disabled={!selectedFile || importStatus === 'validating' || importStatus === 'checking' || importStatus === 'importing'}
                   className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   {importStatus === 'validating' ? (
@@ -404,6 +1827,17 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
                   )}
                 </button>
 
+                {importStatus === 'importing' && throughput && (
+                  <ImportProgressPanel
+                    tables={tableProgress}
+                    startedAt={throughput.startedAt}
+                    sent={throughput.sent}
+                    unit={throughput.unit}
+                    cancelling={cancelling}
+                    onCancel={handleCancel}
+                  />
+                )}
+
                 {/* Debug info */}
                 <div className="text-xs text-gray-500 mt-4 p-2 bg-gray-50 rounded">
                   <div>Debug Info:</div>
@@ -430,17 +1864,23 @@ export const ImportView: React.FC<ImportViewProps> = ({ client, executeSQL }) =>
                 <div className="bg-gray-50 rounded-lg p-4">
                   <pre className="text-xs text-gray-700 whitespace-pre-wrap">
 {`{
-  "users": {
-    "schema": [
-      {
-        "column_name": "id",
-        "data_type": "integer",
-        "is_nullable": "NO"
-      }
-    ],
-    "data": [
-      {"id": 1, "name": "John"}
-    ]
+  "formatVersion": 2,
+  "generator": "supabase-db-manager",
+  "source": { "url": "https://xyz.supabase.co" },
+  "createdAt": "2024-01-01T00:00:00.000Z",
+  "tables": {
+    "public.users": {
+      "schema": [
+        {
+          "column_name": "id",
+          "data_type": "integer",
+          "is_nullable": "NO"
+        }
+      ],
+      "data": [
+        {"id": 1, "name": "John"}
+      ]
+    }
   }
 }`}
                   </pre>
@@ -466,10 +1906,12 @@ INSERT INTO users (name) VALUES ('Jane');`}
                 <h4 className="text-sm font-medium text-blue-900 mb-2">Tips</h4>
                 <ul className="text-xs text-blue-800 space-y-1">
                   <li>• Use the export feature to see the expected format</li>
+                  <li>• ZIP archives are checked against their manifest checksums before anything is imported</li>
                   <li>• Large files may take longer to process</li>
-                  <li>• Duplicate data will be handled according to your constraints</li>
+                  <li>• Duplicate rows are handled by the strategy chosen for each table</li>
                   <li>• SQL files will be executed statement by statement</li>
                   <li>• JSON imports will attempt to insert data into existing tables</li>
+                  <li>• Table names without a schema are imported into public</li>
                 </ul>
               </div>
             </div>
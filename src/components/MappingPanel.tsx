@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { ColumnFill, ColumnInfo, DefaultExpression, ImportMapping, SavedMapping, TableMapping } from '../types/database';
+import {
+  DEFAULT_EXPRESSIONS,
+  deleteSavedMapping,
+  loadSavedMappings,
+  mergeSavedMapping,
+  saveMapping
+} from '../utils/mapping';
+
+interface MappingPanelProps {
+  // Columns found in the file, per source table
+  sourceColumns: Record<string, string[]>;
+  // Tables available in the target database
+  targetTables: string[];
+  // Target columns per table; null when the table does not exist in the database
+  targetColumns: Record<string, ColumnInfo[] | null>;
+  mapping: ImportMapping;
+  onChange: (mapping: ImportMapping) => void;
+}
+
+const DROP_VALUE = '__drop__';
+const SKIP_VALUE = '__skip__';
+const CONSTANT_VALUE = '__constant__';
+
+const fillToValue = (fill: ColumnFill | undefined): string => {
+  if (!fill) return '';
+  return fill.kind === 'constant' ? CONSTANT_VALUE : fill.expression;
+};
+
+export const MappingPanel: React.FC<MappingPanelProps> = ({
+  sourceColumns,
+  targetTables,
+  targetColumns,
+  mapping,
+  onChange
+}) => {
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>(loadSavedMappings);
+  const [mappingName, setMappingName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const updateTable = (sourceTable: string, changes: Partial<TableMapping>) => {
+    onChange({ ...mapping, [sourceTable]: { ...mapping[sourceTable], ...changes } });
+  };
+
+  const handleSave = () => {
+    const name = mappingName.trim();
+    if (!name) return;
+
+    try {
+      setSavedMappings(saveMapping(name, mapping));
+      setSaveError(null);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save mapping');
+    }
+  };
+
+  const handleLoad = (name: string) => {
+    const saved = savedMappings.find(entry => entry.name === name);
+    if (!saved) return;
+
+    setMappingName(saved.name);
+    onChange(mergeSavedMapping(mapping, saved.mapping));
+  };
+
+  const handleDelete = () => {
+    try {
+      setSavedMappings(deleteSavedMapping(mappingName.trim()));
+      setMappingName('');
+      setSaveError(null);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to delete mapping');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {savedMappings.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => handleLoad(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Load saved mapping...</option>
+            {savedMappings.map(entry => (
+              <option key={entry.name} value={entry.name}>{entry.name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="text"
+          value={mappingName}
+          onChange={(e) => setMappingName(e.target.value)}
+          placeholder="Mapping name"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!mappingName.trim()}
+          className="flex items-center gap-1 px-2 py-1 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+          title="Save mapping"
+        >
+          <Save className="w-4 h-4" />
+          Save
+        </button>
+        {savedMappings.some(entry => entry.name === mappingName.trim()) && (
+          <button
+            onClick={handleDelete}
+            className="p-1 text-red-600 hover:bg-red-50 rounded"
+            title="Delete saved mapping"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+
+      {Object.entries(mapping).map(([sourceTable, tableMapping]) => {
+        const columns = tableMapping.target ? targetColumns[tableMapping.target] : undefined;
+        const targetNames = (columns || []).map(col => col.column_name);
+        const mappedTargets = new Set(
+          (sourceColumns[sourceTable] || [])
+            .map(column => (column in tableMapping.columns ? tableMapping.columns[column] : column))
+            .filter(Boolean)
+        );
+        const unmappedTargets = targetNames.filter(name => !mappedTargets.has(name));
+
+        return (
+          <div key={sourceTable} className="p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-900 truncate">{sourceTable}</span>
+              <span className="text-gray-400">→</span>
+              <select
+                value={tableMapping.target ?? SKIP_VALUE}
+                onChange={(e) => updateTable(sourceTable, {
+                  target: e.target.value === SKIP_VALUE ? null : e.target.value,
+                  fills: {}
+                })}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value={SKIP_VALUE}>(skip table)</option>
+                {!targetTables.includes(sourceTable) && (
+                  <option value={sourceTable}>{sourceTable} (not found)</option>
+                )}
+                {targetTables.map(table => (
+                  <option key={table} value={table}>{table}</option>
+                ))}
+              </select>
+            </div>
+
+            {tableMapping.target && (
+              <details className="mt-2">
+                <summary className="cursor-pointer text-xs text-gray-600 hover:text-gray-900">
+                  Columns ({sourceColumns[sourceTable]?.length || 0})
+                </summary>
+                <div className="mt-2 space-y-1">
+                  {(sourceColumns[sourceTable] || []).map(column => {
+                    const target = column in tableMapping.columns ? tableMapping.columns[column] : column;
+                    return (
+                      <div key={column} className="flex items-center gap-2 text-xs">
+                        <span className="w-1/3 truncate text-gray-700">{column}</span>
+                        <span className="text-gray-400">→</span>
+                        <select
+                          value={target ?? DROP_VALUE}
+                          onChange={(e) => updateTable(sourceTable, {
+                            columns: {
+                              ...tableMapping.columns,
+                              [column]: e.target.value === DROP_VALUE ? null : e.target.value
+                            }
+                          })}
+                          className={`flex-1 min-w-0 px-2 py-1 border rounded ${
+                            target && columns && !targetNames.includes(target) ? 'border-red-300' : 'border-gray-300'
+                          }`}
+                        >
+                          <option value={DROP_VALUE}>(drop column)</option>
+                          {target && !targetNames.includes(target) && (
+                            <option value={target}>{target}{columns ? ' (not found)' : ''}</option>
+                          )}
+                          {targetNames.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+
+                  {unmappedTargets.length > 0 && (
+                    <div className="pt-2 mt-2 border-t border-gray-100 space-y-1">
+                      <p className="text-xs text-gray-500">Values for target columns not in the file:</p>
+                      {unmappedTargets.map(name => {
+                        const fill = tableMapping.fills[name];
+                        const setFill = (next: ColumnFill | null) => {
+                          const fills = { ...tableMapping.fills };
+                          if (next) fills[name] = next;
+                          else delete fills[name];
+                          updateTable(sourceTable, { fills });
+                        };
+
+                        return (
+                          <div key={name} className="flex items-center gap-2 text-xs">
+                            <span className="w-1/3 truncate text-gray-700">{name}</span>
+                            <select
+                              value={fillToValue(fill)}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                if (!value) setFill(null);
+                                else if (value === CONSTANT_VALUE) setFill({ kind: 'constant', value: '' });
+                                else setFill({ kind: 'expression', expression: value as DefaultExpression });
+                              }}
+                              className="px-2 py-1 border border-gray-300 rounded"
+                            >
+                              <option value="">(database default)</option>
+                              <option value={CONSTANT_VALUE}>Constant...</option>
+                              {DEFAULT_EXPRESSIONS.map(expression => (
+                                <option key={expression} value={expression}>{expression}</option>
+                              ))}
+                            </select>
+                            {fill?.kind === 'constant' && (
+                              <input
+                                type="text"
+                                value={fill.value}
+                                onChange={(e) => setFill({ kind: 'constant', value: e.target.value })}
+                                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+                                placeholder="Value"
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              </details>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
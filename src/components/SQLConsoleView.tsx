@@ -0,0 +1,299 @@
+import React, { useRef, useState } from 'react';
+import { AlertCircle, Download, Play, PlayCircle, Settings, Trash2 } from 'lucide-react';
+import { SQLHistoryEntry, SQLResult, TableData } from '../types/database';
+import { TableView } from './TableView';
+import { SQLEditor } from './SQLEditor';
+import { inferColumns } from '../utils/columns';
+import { toCSV } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { parseSQLScript, SQLSyntaxError } from '../utils/sqlParser';
+import { SQLExecutionError } from '../utils/sqlProviders';
+import {
+  addToQueryHistory,
+  clearQueryHistory,
+  findStatementAt,
+  getLineAndColumn,
+  loadQueryHistory,
+  StatementRange
+} from '../utils/sqlConsole';
+
+interface SQLConsoleViewProps {
+  projectUrl: string;
+  sqlAvailable: boolean;
+  executeSQL: (query: string) => Promise<SQLResult>;
+  onOpenSettings: () => void;
+}
+
+interface ConsoleError {
+  message: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  // Editor offset and position of the error, when Postgres reports one
+  offset?: number;
+  line?: number;
+  column?: number;
+}
+
+export const SQLConsoleView: React.FC<SQLConsoleViewProps> = ({ projectUrl, sqlAvailable, executeSQL, onOpenSettings }) => {
+  const [query, setQuery] = useState('');
+  // Rows of the last statement; null when it returned no result set
+  const [result, setResult] = useState<TableData | null>(null);
+  const [lastRun, setLastRun] = useState<{ statement: StatementRange; statementCount: number; duration: number } | null>(null);
+  const [error, setError] = useState<ConsoleError | null>(null);
+  const [running, setRunning] = useState(false);
+  const [history, setHistory] = useState<SQLHistoryEntry[]>(() => loadQueryHistory(projectUrl));
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const toConsoleError = (err: unknown, statement: StatementRange): ConsoleError => {
+    if (err instanceof SQLSyntaxError) {
+      return { message: err.message };
+    }
+    if (!(err instanceof SQLExecutionError)) {
+      return { message: err instanceof Error ? err.message : 'Unknown error' };
+    }
+
+    const { message, code, detail, hint, position } = err;
+    if (!position) return { message, code, detail, hint };
+
+    const offset = Math.min(statement.start + position - 1, query.length);
+    return { message, code, detail, hint, offset, ...getLineAndColumn(query, offset) };
+  };
+
+  // Runs statements one after another and shows the rows of the last one; stops at the first error
+  const runStatements = async (statements: StatementRange[]) => {
+    if (statements.length === 0) return;
+
+    setRunning(true);
+    setError(null);
+    const started = performance.now();
+
+    for (const statement of statements) {
+      const executedAt = new Date().toISOString();
+      try {
+        const { rows, hasResultSet } = await executeSQL(statement.sql);
+        setResult(hasResultSet ? { columns: inferColumns(rows), rows, totalRows: rows.length } : null);
+        setHistory(addToQueryHistory(projectUrl, {
+          query: statement.sql,
+          executedAt,
+          rowCount: hasResultSet ? rows.length : undefined
+        }));
+        setLastRun({ statement, statementCount: statements.length, duration: performance.now() - started });
+      } catch (err) {
+        const consoleError = toConsoleError(err, statement);
+        setResult(null);
+        setLastRun(null);
+        setError(consoleError);
+        setHistory(addToQueryHistory(projectUrl, { query: statement.sql, executedAt, error: consoleError.message }));
+        break;
+      }
+    }
+
+    setRunning(false);
+  };
+
+  // The selected text if there is a selection, otherwise the statement under the cursor
+  const getCurrentStatement = (): StatementRange | null => {
+    const textarea = textareaRef.current;
+    const selectionStart = textarea?.selectionStart ?? 0;
+    const selectionEnd = textarea?.selectionEnd ?? 0;
+
+    if (selectionEnd > selectionStart) {
+      const selected = query.slice(selectionStart, selectionEnd);
+      const leading = selected.length - selected.trimStart().length;
+      const sql = selected.trim().replace(/;$/, '');
+      return sql ? { sql, start: selectionStart + leading, end: selectionStart + leading + sql.length } : null;
+    }
+
+    return findStatementAt(query, selectionStart);
+  };
+
+  const handleRun = () => {
+    if (!sqlAvailable || running) return;
+    try {
+      const statement = getCurrentStatement();
+      if (statement) runStatements([statement]);
+    } catch (err) {
+      setError(toConsoleError(err, { sql: query, start: 0, end: query.length }));
+    }
+  };
+
+  const handleRunAll = () => {
+    if (!sqlAvailable || running) return;
+    try {
+      runStatements(parseSQLScript(query).map(statement => {
+        const start = statement.tokens[0].start;
+        return { sql: statement.sql, start, end: start + statement.sql.length };
+      }));
+    } catch (err) {
+      setError(toConsoleError(err, { sql: query, start: 0, end: query.length }));
+    }
+  };
+
+  const showErrorPosition = () => {
+    if (!textareaRef.current || error?.offset === undefined) return;
+    textareaRef.current.focus();
+    textareaRef.current.setSelectionRange(error.offset, error.offset + 1);
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!result) return;
+
+    if (format === 'json') {
+      downloadFile(JSON.stringify(result.rows, null, 2), 'query-result.json', 'application/json');
+    } else {
+      downloadFile(toCSV(result.rows, result.columns.map(col => col.column_name)), 'query-result.csv', 'text/csv');
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">SQL Console</h1>
+        <p className="text-gray-600">
+          Run SQL against the connected database. Ctrl+Enter runs the statement under the cursor or the selection.
+        </p>
+      </div>
+
+      {!sqlAvailable && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <span className="text-yellow-800 text-sm">
+              SQL execution is not configured for this project.
+            </span>
+          </div>
+          <button
+            onClick={onOpenSettings}
+            className="flex items-center gap-2 px-3 py-1 text-sm border border-yellow-300 rounded-lg hover:bg-yellow-100 transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            Open Settings
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 mb-8">
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <SQLEditor value={query} onChange={setQuery} onRun={handleRun} textareaRef={textareaRef} />
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              {lastRun && (
+                <>
+                  {lastRun.statementCount > 1 && `${lastRun.statementCount} statements, `}
+                  {result
+                    ? `${result.totalRows} row${result.totalRows !== 1 ? 's' : ''}`
+                    : 'statement executed, no result set'} in {Math.round(lastRun.duration)} ms
+                </>
+              )}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={handleRunAll}
+                disabled={!sqlAvailable || running || !query.trim()}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <PlayCircle className="w-4 h-4" />
+                Run All
+              </button>
+              <button
+                onClick={handleRun}
+                disabled={!sqlAvailable || running || !query.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                {running ? 'Running...' : 'Run'}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-red-700 space-y-1">
+                <p>
+                  {error.code && <span className="font-mono font-semibold mr-2">{error.code}</span>}
+                  {error.message}
+                </p>
+                {error.line !== undefined && (
+                  <button onClick={showErrorPosition} className="underline hover:text-red-800">
+                    Line {error.line}, column {error.column}
+                  </button>
+                )}
+                {error.detail && <p className="text-red-600">Detail: {error.detail}</p>}
+                {error.hint && <p className="text-red-600">Hint: {error.hint}</p>}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">History</h3>
+            {history.length > 0 && (
+              <button
+                onClick={() => setHistory(clearQueryHistory(projectUrl))}
+                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                title="Clear history"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {history.length === 0 ? (
+              <p className="text-gray-500 text-sm">Queries you run are listed here.</p>
+            ) : (
+              history.map((entry) => (
+                <button
+                  key={entry.executedAt + entry.query}
+                  onClick={() => setQuery(entry.query)}
+                  className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                  title={entry.query}
+                >
+                  <span className="block text-sm font-mono text-gray-700 truncate">{entry.query}</span>
+                  <span className={`block text-xs ${entry.error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {new Date(entry.executedAt).toLocaleString()} • {entry.error
+                      ? 'failed'
+                      : entry.rowCount === undefined
+                        ? 'executed'
+                        : `${entry.rowCount} row${entry.rowCount !== 1 ? 's' : ''}`}
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {result && lastRun && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => handleExport('json')}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export JSON
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+          </div>
+          <TableView
+            tableName="Query result"
+            tableData={result}
+            onRefresh={() => runStatements([lastRun.statement])}
+            loading={running}
+            readOnly
+          />
+        </div>
+      )}
+    </div>
+  );
+};
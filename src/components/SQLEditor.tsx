@@ -0,0 +1,88 @@
+import React, { useMemo, useRef } from 'react';
+import { SQLTokenType, tokenizeSQL } from '../utils/sqlParser';
+
+interface SQLEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Ctrl/Cmd+Enter
+  onRun: () => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+}
+
+const TOKEN_CLASSES: Partial<Record<SQLTokenType, string>> = {
+  keyword: 'text-blue-700',
+  string: 'text-green-700',
+  dollar_string: 'text-green-700',
+  quoted_identifier: 'text-purple-700',
+  number: 'text-orange-600',
+  parameter: 'text-orange-600',
+  comment: 'text-gray-400 italic'
+};
+
+// Both layers need the same font metrics and padding for the caret to line up with the text
+const LAYER_CLASSES = 'font-mono text-sm leading-6 p-3 whitespace-pre';
+
+/**
+ * A textarea with transparent text laid over a highlighted copy of its
+ * contents. Text that does not tokenize yet (an unterminated string while
+ * typing) is shown without highlighting.
+ */
+export const SQLEditor: React.FC<SQLEditorProps> = ({ value, onChange, onRun, textareaRef }) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const highlighted = useMemo(() => {
+    try {
+      return tokenizeSQL(value).map((token, index) => {
+        const className = TOKEN_CLASSES[token.type];
+        return className ? <span key={index} className={className}>{token.value}</span> : token.value;
+      });
+    } catch {
+      return value;
+    }
+  }, [value]);
+
+  const syncScroll = () => {
+    if (highlightRef.current && textareaRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+      highlightRef.current.scrollLeft = textareaRef.current.scrollLeft;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onRun();
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+      // Restore the caret after React re-renders the new value
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  return (
+    <div className="relative h-64 border border-gray-300 rounded-lg bg-white focus-within:ring-2 focus-within:ring-blue-500">
+      <pre
+        ref={highlightRef}
+        aria-hidden="true"
+        className={`${LAYER_CLASSES} absolute inset-0 m-0 overflow-hidden text-gray-900 pointer-events-none`}
+      >
+        {highlighted}
+        {/* Keeps a trailing newline from collapsing so both layers scroll the same height */}
+        {' '}
+      </pre>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={syncScroll}
+        onKeyDown={handleKeyDown}
+        spellCheck={false}
+        placeholder="select * from ..."
+        className={`${LAYER_CLASSES} absolute inset-0 w-full h-full resize-none overflow-auto bg-transparent text-transparent caret-gray-900 placeholder-gray-400 rounded-lg focus:outline-none`}
+      />
+    </div>
+  );
+};
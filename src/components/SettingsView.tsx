@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { AlertCircle, CheckCircle, Copy, Terminal } from 'lucide-react';
+import { SQLProviderConfig, SQLProviderStatus } from '../types/database';
+import {
+  DEFAULT_MANAGEMENT_API_URL,
+  DEFAULT_SQL_FUNCTION,
+  getProjectRef,
+  getSQLFunctionSetup,
+  loadSQLProviderConfig
+} from '../utils/sqlProviders';
+
+interface SettingsViewProps {
+  projectUrl: string;
+  sqlStatus: SQLProviderStatus;
+  onConfigureSQLProvider: (config: SQLProviderConfig) => Promise<SQLProviderStatus>;
+}
+
+export const SettingsView: React.FC<SettingsViewProps> = ({ projectUrl, sqlStatus, onConfigureSQLProvider }) => {
+  const saved = loadSQLProviderConfig(projectUrl);
+  const [providerType, setProviderType] = useState<SQLProviderConfig['type']>(saved?.type || 'rpc');
+  const [functionName, setFunctionName] = useState(
+    saved?.type === 'rpc' ? saved.functionName : DEFAULT_SQL_FUNCTION
+  );
+  const [accessToken, setAccessToken] = useState('');
+  const [projectRef, setProjectRef] = useState(
+    saved?.type === 'management-api' ? saved.projectRef : getProjectRef(projectUrl)
+  );
+  const [baseUrl, setBaseUrl] = useState(
+    saved?.type === 'management-api' ? saved.baseUrl : DEFAULT_MANAGEMENT_API_URL
+  );
+  const [testing, setTesting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const setupSQL = getSQLFunctionSetup(functionName.trim() || DEFAULT_SQL_FUNCTION);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(setupSQL);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleEnable = async () => {
+    setTesting(true);
+    try {
+      await onConfigureSQLProvider(
+        providerType === 'rpc'
+          ? { type: 'rpc', functionName: functionName.trim() || DEFAULT_SQL_FUNCTION }
+          : { type: 'management-api', accessToken: accessToken.trim(), projectRef: projectRef.trim(), baseUrl: baseUrl.trim() }
+      );
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const canEnable = providerType === 'rpc'
+    ? true
+    : accessToken.trim() !== '' && projectRef.trim() !== '' && baseUrl.trim() !== '';
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Settings</h1>
+        <p className="text-gray-600">
+          PostgREST cannot run SQL directly. Configure a backend to enable DDL import and sequence reset.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Terminal className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">SQL Execution</h3>
+        </div>
+
+        {sqlStatus.available ? (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+            <span className="text-green-700 text-sm">
+              SQL execution is enabled through the {sqlStatus.provider === 'rpc' ? 'RPC function' : 'Management API'}.
+            </span>
+          </div>
+        ) : (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <span className="text-yellow-800 text-sm">
+              {sqlStatus.error || 'SQL execution is not configured. SQL-dependent features are turned off.'}
+            </span>
+          </div>
+        )}
+
+        <div className="flex gap-6">
+          <label className="flex items-center">
+            <input
+              type="radio"
+              name="sqlProvider"
+              checked={providerType === 'rpc'}
+              onChange={() => setProviderType('rpc')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Database function (RPC)</span>
+          </label>
+          <label className="flex items-center">
+            <input
+              type="radio"
+              name="sqlProvider"
+              checked={providerType === 'management-api'}
+              onChange={() => setProviderType('management-api')}
+              className="h-4 w-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Supabase Management API</span>
+          </label>
+        </div>
+
+        {providerType === 'rpc' ? (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Function name</label>
+              <input
+                type="text"
+                value={functionName}
+                onChange={(e) => setFunctionName(e.target.value)}
+                placeholder={DEFAULT_SQL_FUNCTION}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Use "schema.name" for a function outside the public schema. It must be called with the service_role key.
+              </p>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Run this once in the Supabase SQL editor
+                </label>
+                <button
+                  onClick={handleCopy}
+                  className="flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  <Copy className="w-3 h-3" />
+                  {copied ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+              <pre className="bg-gray-50 rounded-lg p-4 text-xs text-gray-700 overflow-x-auto">{setupSQL}</pre>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Personal access token</label>
+              <input
+                type="password"
+                value={accessToken}
+                onChange={(e) => setAccessToken(e.target.value)}
+                placeholder="sbp_..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Create one under Account → Access Tokens in the Supabase dashboard. It is kept in memory only.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Project ref</label>
+                <input
+                  type="text"
+                  value={projectRef}
+                  onChange={(e) => setProjectRef(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">API base URL</label>
+                <input
+                  type="text"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Point this at a local server implementing POST /v1/projects/:ref/database/query for testing.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={handleEnable}
+          disabled={testing || !canEnable}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {testing ? 'Testing...' : 'Test & Enable'}
+        </button>
+      </div>
+    </div>
+  );
+};
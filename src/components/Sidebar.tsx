@@ -1,22 +1,29 @@
 import React, { useState } from 'react';
-import { Database, Table, Download, Upload, Settings, LogOut, Coffee } from 'lucide-react';
-import { DatabaseConnection } from '../types/database';
+import { Database, Table, Download, Upload, Settings, LogOut, Coffee, FunctionSquare, Terminal } from 'lucide-react';
+import { AppView, DatabaseConnection, TableInfo } from '../types/database';
+import { qualifyTableName } from '../utils/tableName';
 
 interface SidebarProps {
   connection: DatabaseConnection;
-  tables: string[];
+  tables: TableInfo[];
+  schemas: string[];
+  activeSchema: string | null;
+  onSchemaChange: (schema: string | null) => void;
   selectedTable: string | null;
   onTableSelect: (table: string) => void;
   onExportClick: () => void;
   onImportClick: () => void;
   onDisconnect: () => void;
-  currentView: 'tables' | 'export' | 'import';
-  setCurrentView: (view: 'tables' | 'export' | 'import') => void;
+  currentView: AppView;
+  setCurrentView: (view: AppView) => void;
 }
 
 export const Sidebar: React.FC<SidebarProps> = ({
   connection,
   tables,
+  schemas,
+  activeSchema,
+  onSchemaChange,
   selectedTable,
   onTableSelect,
   onExportClick,
@@ -27,6 +34,10 @@ export const Sidebar: React.FC<SidebarProps> = ({
 }) => {
   const [showQR, setShowQR] = useState(false);
 
+  const visibleSchemas = (activeSchema ? [activeSchema] : schemas)
+    .filter(schema => tables.some(t => t.table_schema === schema));
+  const visibleTableCount = tables.filter(t => !activeSchema || t.table_schema === activeSchema).length;
+
   return (
     <div className="w-64 bg-white border-r border-gray-200 h-screen flex flex-col">
       <div className="p-6 border-b border-gray-200">
@@ -52,6 +63,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
           <span className="font-medium">Tables</span>
         </button>
 
+        <button
+          onClick={() => setCurrentView('functions')}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+            currentView === 'functions' 
+              ? 'bg-blue-100 text-blue-700' 
+              : 'hover:bg-gray-100 text-gray-700'
+          }`}
+        >
+          <FunctionSquare className="w-5 h-5" />
+          <span className="font-medium">Functions</span>
+        </button>
+
         <button
           onClick={() => setCurrentView('export')}
           className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
@@ -76,24 +99,75 @@ export const Sidebar: React.FC<SidebarProps> = ({
           <span className="font-medium">Import</span>
         </button>
 
+        <button
+          onClick={() => setCurrentView('sql')}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+            currentView === 'sql' 
+              ? 'bg-blue-100 text-blue-700' 
+              : 'hover:bg-gray-100 text-gray-700'
+          }`}
+        >
+          <Terminal className="w-5 h-5" />
+          <span className="font-medium">SQL</span>
+        </button>
+
+        <button
+          onClick={() => setCurrentView('settings')}
+          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+            currentView === 'settings' 
+              ? 'bg-blue-100 text-blue-700' 
+              : 'hover:bg-gray-100 text-gray-700'
+          }`}
+        >
+          <Settings className="w-5 h-5" />
+          <span className="font-medium">Settings</span>
+        </button>
+
         {currentView === 'tables' && (
           <div className="mt-6">
+            {schemas.length > 1 && (
+              <select
+                value={activeSchema || ''}
+                onChange={(e) => onSchemaChange(e.target.value || null)}
+                className="w-full mb-3 px-2 py-1 border border-gray-300 rounded text-sm text-gray-700"
+              >
+                <option value="">All schemas</option>
+                {schemas.map((schema) => (
+                  <option key={schema} value={schema}>{schema}</option>
+                ))}
+              </select>
+            )}
             <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
-              Tables ({tables.length})
+              Tables ({visibleTableCount})
             </h3>
-            <div className="space-y-1 max-h-96 overflow-y-auto">
-              {tables.map((table) => (
-                <button
-                  key={table}
-                  onClick={() => onTableSelect(table)}
-                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
-                    selectedTable === table
-                      ? 'bg-blue-50 text-blue-700 border-l-2 border-blue-600'
-                      : 'hover:bg-gray-50 text-gray-700'
-                  }`}
-                >
-                  <span className="text-sm font-medium">{table}</span>
-                </button>
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {visibleSchemas.map((schema) => (
+                <div key={schema}>
+                  {schemas.length > 1 && (
+                    <p className="px-3 text-xs font-semibold text-gray-400">{schema}</p>
+                  )}
+                  <div className="space-y-1">
+                    {tables.filter(t => t.table_schema === schema).map((table) => {
+                      const qualifiedName = qualifyTableName(table.table_schema, table.table_name);
+                      return (
+                        <button
+                          key={qualifiedName}
+                          onClick={() => onTableSelect(qualifiedName)}
+                          className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                            selectedTable === qualifiedName
+                              ? 'bg-blue-50 text-blue-700 border-l-2 border-blue-600'
+                              : 'hover:bg-gray-50 text-gray-700'
+                          }`}
+                        >
+                          <span className="text-sm font-medium">{table.table_name}</span>
+                          {table.table_type === 'VIEW' && (
+                            <span className="ml-2 text-xs text-gray-400">view</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
               ))}
             </div>
           </div>
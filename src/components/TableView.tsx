@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Edit, Trash2, Save, X, RefreshCw, Search, ChevronLeft, ChevronRight } from 'lucide-react';
-import { TableData, ColumnInfo } from '../types/database';
+import { TableData, ColumnInfo, RowKey } from '../types/database';
+import { getPrimaryKeyColumns } from '../utils/openapi';
+import { pickKey } from '../utils/rowKeys';
 
 interface TableViewProps {
   tableName: string;
   tableData: TableData;
-  onInsertRow: (data: Record<string, any>) => Promise<void>;
-  onUpdateRow: (data: Record<string, any>, primaryKey: string, keyValue: any) => Promise<void>;
-  onDeleteRow: (primaryKey: string, keyValue: any) => Promise<void>;
+  onInsertRow?: (data: Record<string, unknown>) => Promise<void>;
+  onUpdateRow?: (data: Record<string, unknown>, key: RowKey) => Promise<void>;
+  onDeleteRow?: (key: RowKey) => Promise<void>;
   onRefresh: () => void;
   loading: boolean;
+  // Views and function results are shown without any write actions
+  readOnly?: boolean;
 }
 
 export const TableView: React.FC<TableViewProps> = ({
@@ -19,7 +23,8 @@ export const TableView: React.FC<TableViewProps> = ({
   onUpdateRow,
   onDeleteRow,
   onRefresh,
-  loading
+  loading,
+  readOnly = false
 }) => {
   const [editingRow, setEditingRow] = useState<number | null>(null);
   const [editingData, setEditingData] = useState<Record<string, any>>({});
@@ -30,11 +35,11 @@ export const TableView: React.FC<TableViewProps> = ({
   const [error, setError] = useState<string | null>(null);
 
   const rowsPerPage = 50;
-  const primaryKey = tableData.columns.find(col => 
-    col.column_name === 'id' || 
-    col.column_name.includes('id') ||
-    col.column_default?.includes('gen_random_uuid')
-  )?.column_name || tableData.columns[0]?.column_name || '';
+  const primaryKeyColumns = getPrimaryKeyColumns(tableData.columns);
+  // Rows can only be edited when they can be addressed through their primary key
+  const canEditRows = !readOnly && primaryKeyColumns.length > 0;
+
+  const getRowKey = (row: Record<string, unknown>): RowKey => pickKey(row, primaryKeyColumns);
 
   useEffect(() => {
     // Initialize new row data with default values
@@ -64,6 +69,7 @@ export const TableView: React.FC<TableViewProps> = ({
   const paginatedRows = filteredRows.slice(startIndex, startIndex + rowsPerPage);
 
   const handleEdit = (rowIndex: number, row: Record<string, any>) => {
+    if (!canEditRows) return;
     setEditingRow(rowIndex);
     setEditingData({ ...row });
     setError(null);
@@ -71,9 +77,10 @@ export const TableView: React.FC<TableViewProps> = ({
 
   const handleSave = async (rowIndex: number) => {
     try {
+      if (!canEditRows || !onUpdateRow) throw new Error('This table has no primary key');
       setError(null);
       const originalRow = paginatedRows[rowIndex];
-      await onUpdateRow(editingData, primaryKey, originalRow[primaryKey]);
+      await onUpdateRow(editingData, getRowKey(originalRow));
       setEditingRow(null);
       setEditingData({});
       onRefresh();
@@ -83,10 +90,11 @@ export const TableView: React.FC<TableViewProps> = ({
   };
 
   const handleDelete = async (row: Record<string, any>) => {
+    if (!canEditRows || !onDeleteRow) return;
     if (window.confirm('Are you sure you want to delete this row? This action cannot be undone.')) {
       try {
         setError(null);
-        await onDeleteRow(primaryKey, row[primaryKey]);
+        await onDeleteRow(getRowKey(row));
         onRefresh();
       } catch (error) {
         setError('Failed to delete row: ' + (error instanceof Error ? error.message : 'Unknown error'));
@@ -95,6 +103,7 @@ export const TableView: React.FC<TableViewProps> = ({
   };
 
   const handleCreate = async () => {
+    if (!onInsertRow) return;
     try {
       setError(null);
       await onInsertRow(newRowData);
@@ -222,13 +231,15 @@ export const TableView: React.FC<TableViewProps> = ({
             </p>
           </div>
           <div className="flex items-center gap-2">
-            <button
-              onClick={() => setIsCreating(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              Add Row
-            </button>
+            {!readOnly && (
+              <button
+                onClick={() => setIsCreating(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add Row
+              </button>
+            )}
             <button
               onClick={onRefresh}
               disabled={loading}
@@ -279,6 +290,22 @@ export const TableView: React.FC<TableViewProps> = ({
         </div>
       </div>
 
+      {readOnly && (
+        <div className="px-6 py-3 bg-gray-50 border-b border-gray-200">
+          <p className="text-gray-600 text-sm">
+            Read-only: rows cannot be added, edited or deleted here.
+          </p>
+        </div>
+      )}
+
+      {!readOnly && !canEditRows && (
+        <div className="px-6 py-3 bg-yellow-50 border-b border-yellow-200">
+          <p className="text-yellow-800 text-sm">
+            This table has no primary key, so existing rows cannot be edited or deleted here.
+          </p>
+        </div>
+      )}
+
       {error && (
         <div className="px-6 py-3 bg-red-50 border-b border-red-200">
           <p className="text-red-700 text-sm">{error}</p>
@@ -297,21 +324,24 @@ export const TableView: React.FC<TableViewProps> = ({
                   <div className="flex flex-col">
                     <span className="flex items-center gap-1">
                       {column.column_name}
-                      {column.column_name === primaryKey && (
+                      {column.is_primary_key && (
                         <span className="text-blue-600">🔑</span>
                       )}
                     </span>
                     <span className="text-xs text-gray-400 normal-case">
                       {column.data_type}
-                      {column.is_nullable === 'NO' && ' • Required'}
+                      {column.is_required && ' • Required'}
                       {isAutoGeneratedField(column) && ' • Auto'}
+                      {column.foreign_key && ` • → ${column.foreign_key.table}.${column.foreign_key.column}`}
                     </span>
                   </div>
                 </th>
               ))}
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Actions
-              </th>
+              {!readOnly && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actions
+                </th>
+              )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
@@ -330,7 +360,7 @@ export const TableView: React.FC<TableViewProps> = ({
                           [column.column_name]: parseValue(e.target.value, column.data_type)
                         }))}
                         className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
-                        placeholder={column.is_nullable === 'NO' ? 'Required' : 'Optional'}
+                        placeholder={column.is_required ? 'Required' : 'Optional'}
                       />
                     )}
                   </td>
@@ -356,7 +386,7 @@ export const TableView: React.FC<TableViewProps> = ({
               </tr>
             )}
             {paginatedRows.map((row, rowIndex) => (
-              <tr key={row[primaryKey] || rowIndex} className="hover:bg-gray-50 transition-colors">
+              <tr key={canEditRows ? JSON.stringify(getRowKey(row)) : rowIndex} className="hover:bg-gray-50 transition-colors">
                 {tableData.columns.map((column) => (
                   <td key={column.column_name} className="px-6 py-4">
                     {renderCell(
@@ -370,49 +400,51 @@ export const TableView: React.FC<TableViewProps> = ({
                     )}
                   </td>
                 ))}
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                  <div className="flex items-center gap-2 justify-end">
-                    {editingRow === rowIndex ? (
-                      <>
-                        <button
-                          onClick={() => handleSave(rowIndex)}
-                          className="text-green-600 hover:text-green-900 transition-colors"
-                          title="Save changes"
-                        >
-                          <Save className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => {
-                            setEditingRow(null);
-                            setEditingData({});
-                            setError(null);
-                          }}
-                          className="text-gray-400 hover:text-gray-600 transition-colors"
-                          title="Cancel"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </>
-                    ) : (
-                      <>
-                        <button
-                          onClick={() => handleEdit(rowIndex, row)}
-                          className="text-blue-600 hover:text-blue-900 transition-colors"
-                          title="Edit row"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(row)}
-                          className="text-red-600 hover:text-red-900 transition-colors"
-                          title="Delete row"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </>
-                    )}
-                  </div>
-                </td>
+                {!readOnly && (
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center gap-2 justify-end">
+                      {editingRow === rowIndex ? (
+                        <>
+                          <button
+                            onClick={() => handleSave(rowIndex)}
+                            className="text-green-600 hover:text-green-900 transition-colors"
+                            title="Save changes"
+                          >
+                            <Save className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditingRow(null);
+                              setEditingData({});
+                              setError(null);
+                            }}
+                            className="text-gray-400 hover:text-gray-600 transition-colors"
+                            title="Cancel"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : canEditRows && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(rowIndex, row)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors"
+                            title="Edit row"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(row)}
+                            className="text-red-600 hover:text-red-900 transition-colors"
+                            title="Delete row"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
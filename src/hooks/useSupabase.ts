@@ -1,6 +1,39 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { DatabaseConnection, TableInfo, ColumnInfo, TableData } from '../types/database';
+import {
+  DatabaseConnection,
+  TableInfo,
+  ColumnInfo,
+  TableData,
+  OpenAPISpec,
+  RowKey,
+  FunctionInfo,
+  FetchProgress,
+  FetchAllResult,
+  SQLProviderConfig,
+  SQLProviderStatus,
+  SQLResult
+} from '../types/database';
+import {
+  getColumnsFromSpec,
+  getForeignKeys,
+  getFunctionsFromSpec,
+  getPrimaryKeyColumns,
+  getRelationType
+} from '../utils/openapi';
+import { DEFAULT_SCHEMA, fromTable, parseTableName } from '../utils/tableName';
+import { inferColumns } from '../utils/columns';
+import {
+  DEFAULT_SQL_FUNCTION,
+  executeWithProvider,
+  loadSQLProviderConfig,
+  saveSQLProviderConfig
+} from '../utils/sqlProviders';
+
+const NO_SQL_PROVIDER: SQLProviderStatus = { provider: null, available: false };
+
+// Types Postgres cannot ORDER BY, so they cannot give keyless tables a stable page order
+const UNORDERABLE_TYPES = ['json', 'xml', 'point', 'line', 'lseg', 'box', 'path', 'polygon', 'circle'];
 
 export const useSupabase = () => {
   const [client, setClient] = useState<SupabaseClient | null>(null);
@@ -8,6 +41,12 @@ export const useSupabase = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Cached PostgREST OpenAPI documents per schema, shared by table and column discovery
+  const schemaDocuments = useRef<Record<string, OpenAPISpec>>({});
+  const exposedSchemas = useRef<string[] | null>(null);
+  // Backend for executeSQL; SQL-dependent features are enabled only when it has been verified
+  const sqlProvider = useRef<SQLProviderConfig | null>(null);
+  const [sqlStatus, setSQLStatus] = useState<SQLProviderStatus>(NO_SQL_PROVIDER);
 
   const connect = useCallback(async (connectionData: DatabaseConnection) => {
     setLoading(true);
@@ -49,51 +88,110 @@ export const useSupabase = () => {
   }, []);
 
   const disconnect = useCallback(() => {
+    schemaDocuments.current = {};
+    exposedSchemas.current = null;
+    sqlProvider.current = null;
+    setSQLStatus(NO_SQL_PROVIDER);
     setClient(null);
     setConnection(null);
     setIsConnected(false);
     setError(null);
   }, []);
 
-  const getTables = useCallback(async (): Promise<TableInfo[]> => {
-    if (!client || !connection) throw new Error('Not connected');
-    
+  const fetchSchemaDocument = useCallback(async (schemaName: string = DEFAULT_SCHEMA): Promise<OpenAPISpec> => {
+    if (!connection) throw new Error('Not connected');
+
+    const response = await fetch(`${connection.url}/rest/v1/`, {
+      headers: {
+        'apikey': connection.apiKey,
+        'Authorization': `Bearer ${connection.apiKey}`,
+        'Accept': 'application/json',
+        'Accept-Profile': schemaName
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch schema "${schemaName}": ${response.status}`);
+    }
+
+    const spec: OpenAPISpec = await response.json();
+    schemaDocuments.current[schemaName] = spec;
+    return spec;
+  }, [connection]);
+
+  const getSchemas = useCallback(async (): Promise<string[]> => {
+    if (!connection) throw new Error('Not connected');
+    if (exposedSchemas.current) return exposedSchemas.current;
+
+    let schemas = [DEFAULT_SCHEMA];
     try {
-      console.log('Discovering tables...');
-      
-      // Method 1: Get all available endpoints from the OpenAPI schema
+      // PostgREST rejects a profile it does not serve with PGRST106 and lists the exposed schemas,
+      // e.g. "The schema must be one of the following: public, api" or a hint with the same list
       const response = await fetch(`${connection.url}/rest/v1/`, {
         headers: {
           'apikey': connection.apiKey,
           'Authorization': `Bearer ${connection.apiKey}`,
-          'Accept': 'application/json'
+          'Accept': 'application/json',
+          'Accept-Profile': '__schema_probe__'
         }
       });
-      
+
       if (!response.ok) {
-        throw new Error(`Failed to fetch schema: ${response.status}`);
+        const body = await response.json();
+        const text = [body?.message, body?.hint].filter(Boolean).join('\n');
+        const match = text.match(/following[^:]*:\s*(.+)$/m);
+        if (match) {
+          const listed = match[1].split(',').map((name: string) => name.trim()).filter(Boolean);
+          if (listed.length > 0) schemas = listed;
+        }
       }
+    } catch {
+      // Without a listing only the public schema is browsed
+    }
+
+    exposedSchemas.current = schemas;
+    return schemas;
+  }, [connection]);
+
+  const getTables = useCallback(async (): Promise<TableInfo[]> => {
+    if (!client || !connection) throw new Error('Not connected');
+    
+    try {
+      console.log('Discovering tables...');
       
-      const schema = await response.json();
       const discoveredTables: TableInfo[] = [];
-      
-      // Parse OpenAPI schema to extract all table endpoints
-      if (schema.paths) {
-        console.log('Found paths in schema:', Object.keys(schema.paths));
-        
-        Object.keys(schema.paths).forEach(path => {
-          // Match paths like /tablename (but not /rpc/functionname)
-          const match = path.match(/^\/([a-zA-Z_][a-zA-Z0-9_]*)$/);
-          if (match && match[1] !== 'rpc') {
-            const tableName = match[1];
-            console.log('Found table:', tableName);
-            discoveredTables.push({
-              table_name: tableName,
-              table_schema: 'public',
-              table_type: 'BASE TABLE'
-            });
-          }
-        });
+      const schemaNames = await getSchemas();
+
+      // Method 1: Get all available endpoints from the OpenAPI schema of every exposed schema
+      for (const schemaName of schemaNames) {
+        let schema: OpenAPISpec;
+        try {
+          schema = await fetchSchemaDocument(schemaName);
+        } catch {
+          continue;
+        }
+
+        // Parse OpenAPI schema to extract all table endpoints
+        if (schema.paths) {
+          console.log('Found paths in schema:', Object.keys(schema.paths));
+          
+          Object.entries(schema.paths).forEach(([path, pathItem]) => {
+            // Match paths like /tablename (but not /rpc/functionname)
+            const match = path.match(/^\/([a-zA-Z_][a-zA-Z0-9_]*)$/);
+            if (match && match[1] !== 'rpc') {
+              const tableName = match[1];
+              console.log('Found table:', tableName);
+              const columns = getColumnsFromSpec(schema, tableName) || [];
+              discoveredTables.push({
+                table_name: tableName,
+                table_schema: schemaName,
+                table_type: getRelationType(pathItem),
+                primary_key: getPrimaryKeyColumns(columns),
+                foreign_keys: getForeignKeys(columns)
+              });
+            }
+          });
+        }
       }
       
       // Method 2: If OpenAPI parsing didn't work, try to discover by testing endpoints
@@ -123,7 +221,7 @@ export const useSupabase = () => {
               console.log('Discovered table via testing:', tableName);
               discoveredTables.push({
                 table_name: tableName,
-                table_schema: 'public',
+                table_schema: DEFAULT_SCHEMA,
                 table_type: 'BASE TABLE'
               });
             }
@@ -182,7 +280,7 @@ export const useSupabase = () => {
                     console.log('Discovered table via brute force:', tableName);
                     discoveredTables.push({
                       table_name: tableName,
-                      table_schema: 'public',
+                      table_schema: DEFAULT_SCHEMA,
                       table_type: 'BASE TABLE'
                     });
                   }
@@ -199,7 +297,7 @@ export const useSupabase = () => {
       
       // Remove duplicates
       const uniqueTables = discoveredTables.filter((table, index, self) => 
-        index === self.findIndex(t => t.table_name === table.table_name)
+        index === self.findIndex(t => t.table_name === table.table_name && t.table_schema === table.table_schema)
       );
       
       return uniqueTables;
@@ -207,15 +305,58 @@ export const useSupabase = () => {
       console.error('Table discovery error:', err);
       throw new Error('Failed to load tables: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
-  }, [client, connection]);
+  }, [client, connection, fetchSchemaDocument, getSchemas]);
+
+  const getFunctions = useCallback(async (): Promise<FunctionInfo[]> => {
+    if (!connection) throw new Error('Not connected');
+
+    try {
+      const functions: FunctionInfo[] = [];
+      for (const schemaName of await getSchemas()) {
+        const spec = schemaDocuments.current[schemaName] || await fetchSchemaDocument(schemaName);
+        functions.push(...getFunctionsFromSpec(spec, schemaName));
+      }
+      return functions;
+    } catch (err) {
+      throw new Error('Failed to load functions: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }, [connection, fetchSchemaDocument, getSchemas]);
+
+  const callFunction = useCallback(async (
+    functionName: string,
+    args: Record<string, unknown>,
+    method: 'GET' | 'POST' = 'POST'
+  ): Promise<unknown> => {
+    if (!client) throw new Error('Not connected');
+
+    try {
+      const { schema, table: name } = parseTableName(functionName);
+      const { data, error } = await client.schema(schema).rpc(name, args, { get: method === 'GET' });
+      if (error) throw error;
+      return data;
+    } catch (err) {
+      throw new Error('Function call failed: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }, [client]);
 
   const getColumns = useCallback(async (tableName: string): Promise<ColumnInfo[]> => {
     if (!client) throw new Error('Not connected');
     
     try {
-      // Get column information by querying the table and examining the first row
-      const { data: sampleData, error: sampleError } = await client
-        .from(tableName)
+      // Prefer the column definitions PostgREST publishes in its OpenAPI document
+      try {
+        const { schema, table } = parseTableName(tableName);
+        const spec = schemaDocuments.current[schema] || await fetchSchemaDocument(schema);
+        const specColumns = getColumnsFromSpec(spec, table);
+        if (specColumns) {
+          return specColumns;
+        }
+      } catch (specErr) {
+        console.warn(`OpenAPI schema unavailable for ${tableName}, sampling rows instead:`, specErr);
+      }
+
+      // Fallback: get column information by querying the table and examining the first row
+      const { data: sampleData, error: sampleError } = await fromTable(client, tableName)
         .select('*')
         .limit(1);
       
@@ -225,18 +366,10 @@ export const useSupabase = () => {
       
       // Infer columns from sample data
       if (sampleData && sampleData.length > 0) {
-        const sampleRow = sampleData[0];
-        return Object.keys(sampleRow).map((key, index) => ({
-          column_name: key,
-          data_type: inferDataType(sampleRow[key]),
-          is_nullable: 'YES',
-          column_default: null,
-          ordinal_position: index + 1
-        }));
+        return inferColumns(sampleData);
       } else {
         // If no data, try to get an empty result to see the structure
-        const { data: emptyData, error: emptyError } = await client
-          .from(tableName)
+        const { data: emptyData, error: emptyError } = await fromTable(client, tableName)
           .select('*')
           .limit(0);
         
@@ -250,28 +383,7 @@ export const useSupabase = () => {
     } catch (err) {
       throw new Error('Failed to load columns: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
-  }, [client]);
-
-  const inferDataType = (value: any): string => {
-    if (value === null || value === undefined) return 'text';
-    if (typeof value === 'boolean') return 'boolean';
-    if (typeof value === 'number') {
-      return Number.isInteger(value) ? 'integer' : 'numeric';
-    }
-    if (typeof value === 'string') {
-      // Check if it looks like a UUID
-      if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
-        return 'uuid';
-      }
-      // Check if it looks like a timestamp
-      if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
-        return 'timestamp with time zone';
-      }
-      return 'text';
-    }
-    if (typeof value === 'object') return 'jsonb';
-    return 'text';
-  };
+  }, [client, fetchSchemaDocument]);
 
   const getTableData = useCallback(async (
     tableName: string,
@@ -285,8 +397,8 @@ export const useSupabase = () => {
       
       const [columnsResult, dataResult, countResult] = await Promise.all([
         getColumns(tableName),
-        client.from(tableName).select('*').range(offset, offset + limit - 1),
-        client.from(tableName).select('*', { count: 'exact', head: true })
+        fromTable(client, tableName).select('*').range(offset, offset + limit - 1),
+        fromTable(client, tableName).select('*', { count: 'exact', head: true })
       ]);
       
       if (dataResult.error) throw dataResult.error;
@@ -302,6 +414,84 @@ export const useSupabase = () => {
     }
   }, [client, getColumns]);
 
+  /**
+   * Reads every row of a table page by page, so exports are not cut off at the
+   * PostgREST max-rows limit. Tables with a single-column primary key use
+   * keyset pagination; others page with .range() ordered by their key columns,
+   * or by every column when there is no key. Rows seen twice are dropped, so
+   * the result holds distinct keys only.
+   * Pass `columns` to read only some columns; key columns are always included.
+   */
+  const getAllRows = useCallback(async (
+    tableName: string,
+    onProgress?: (progress: FetchProgress) => void,
+    pageSize: number = 1000,
+    columns?: string[]
+  ): Promise<FetchAllResult> => {
+    if (!client) throw new Error('Not connected');
+
+    try {
+      const { count, error: countError } = await fromTable(client, tableName)
+        .select('*', { count: 'exact', head: true });
+      if (countError) throw countError;
+
+      const expectedCount = count ?? null;
+      const tableColumns = await getColumns(tableName);
+      const keyColumns = getPrimaryKeyColumns(tableColumns);
+      // Without a key, pages are only stable when every column can be sorted on
+      const orderColumns = keyColumns.length > 0
+        ? keyColumns
+        : tableColumns.filter(col => !UNORDERABLE_TYPES.includes(col.data_type)).map(col => col.column_name);
+      const totalOrder = keyColumns.length > 0 || (orderColumns.length > 0 && orderColumns.length === tableColumns.length);
+      const selection = columns ? Array.from(new Set([...columns, ...keyColumns])).join(',') : '*';
+      const rows: Record<string, unknown>[] = [];
+      const seenKeys = new Set<string>();
+      let offset = 0;
+      let pages = 0;
+      let lastKey: unknown = undefined;
+
+      onProgress?.({ fetched: 0, total: expectedCount });
+
+      while (expectedCount === null || rows.length < expectedCount) {
+        let query = fromTable(client, tableName).select(selection);
+
+        if (keyColumns.length === 1) {
+          const [keyColumn] = keyColumns;
+          if (lastKey !== undefined) query = query.gt(keyColumn, lastKey);
+          query = query.order(keyColumn, { ascending: true });
+        } else {
+          orderColumns.forEach(column => {
+            query = query.order(column, { ascending: true });
+          });
+        }
+
+        // The server may cap a page below pageSize; the next request simply continues after it
+        const request = keyColumns.length === 1 ? query.limit(pageSize) : query.range(offset, offset + pageSize - 1);
+        const { data, error: pageError } = await request.overrideTypes<Record<string, unknown>[], { merge: false }>();
+        if (pageError) throw pageError;
+        const page = data || [];
+        if (page.length === 0) break;
+
+        offset += page.length;
+        pages++;
+        page.forEach(row => {
+          if (keyColumns.length > 0) {
+            const key = JSON.stringify(keyColumns.map(column => row[column]));
+            if (seenKeys.has(key)) return;
+            seenKeys.add(key);
+          }
+          rows.push(row);
+        });
+        if (keyColumns.length === 1) lastKey = page[page.length - 1][keyColumns[0]];
+        onProgress?.({ fetched: rows.length, total: expectedCount });
+      }
+
+      return { rows, expectedCount, stableOrder: totalOrder || pages <= 1 };
+    } catch (err) {
+      throw new Error('Failed to read table rows: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  }, [client, getColumns]);
+
   const insertRow = useCallback(async (tableName: string, rowData: Record<string, any>) => {
     if (!client) throw new Error('Not connected');
     
@@ -316,22 +506,62 @@ export const useSupabase = () => {
         return acc;
       }, {} as Record<string, any>);
 
-      const { error } = await client.from(tableName).insert(cleanedData);
+      const { error } = await fromTable(client, tableName).insert(cleanedData);
       if (error) throw error;
     } catch (err) {
       throw new Error('Failed to insert row: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
   }, [client]);
 
+  // Validates that a row key covers exactly the table's primary key columns
+  const resolveRowKey = useCallback(async (tableName: string, key: RowKey): Promise<[string, unknown][]> => {
+    const keyColumns = getPrimaryKeyColumns(await getColumns(tableName));
+    if (keyColumns.length === 0) {
+      throw new Error(`Table "${tableName}" has no primary key, so rows cannot be identified safely`);
+    }
+
+    const givenColumns = Object.keys(key);
+    const missing = keyColumns.filter(col => !givenColumns.includes(col));
+    const extra = givenColumns.filter(col => !keyColumns.includes(col));
+    if (missing.length > 0 || extra.length > 0) {
+      throw new Error(`Row key for "${tableName}" must consist of ${keyColumns.join(', ')} (got ${givenColumns.join(', ') || 'nothing'})`);
+    }
+
+    const nullColumns = keyColumns.filter(col => key[col] === null || key[col] === undefined);
+    if (nullColumns.length > 0) {
+      throw new Error(`Row key for "${tableName}" has no value for ${nullColumns.join(', ')}`);
+    }
+
+    return keyColumns.map(col => [col, key[col]]);
+  }, [getColumns]);
+
+  // Refuses to continue unless the key matches exactly one row
+  const assertSingleRow = useCallback(async (tableName: string, keyEntries: [string, unknown][]) => {
+    if (!client) throw new Error('Not connected');
+
+    let query = fromTable(client, tableName).select('*', { count: 'exact', head: true });
+    for (const [column, value] of keyEntries) {
+      query = query.eq(column, value);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    if (count !== 1) {
+      throw new Error(`Row key matches ${count ?? 0} rows in "${tableName}", expected exactly 1`);
+    }
+  }, [client]);
+
   const updateRow = useCallback(async (
     tableName: string,
     rowData: Record<string, any>,
-    primaryKey: string,
-    keyValue: any
+    key: RowKey
   ) => {
     if (!client) throw new Error('Not connected');
     
     try {
+      const keyEntries = await resolveRowKey(tableName, key);
+      await assertSingleRow(tableName, keyEntries);
+
       // Clean up empty strings and convert to appropriate types
       const cleanedData = Object.entries(rowData).reduce((acc, [key, value]) => {
         if (value === '') {
@@ -342,47 +572,108 @@ export const useSupabase = () => {
         return acc;
       }, {} as Record<string, any>);
 
-      const { error } = await client
-        .from(tableName)
-        .update(cleanedData)
-        .eq(primaryKey, keyValue);
-      
+      let query = fromTable(client, tableName).update(cleanedData);
+      for (const [column, value] of keyEntries) {
+        query = query.eq(column, value);
+      }
+
+      // assertSingleRow checked the key beforehand; the write itself cannot be taken back
+      const { error } = await query;
       if (error) throw error;
     } catch (err) {
       throw new Error('Failed to update row: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
-  }, [client]);
+  }, [client, resolveRowKey, assertSingleRow]);
 
   const deleteRow = useCallback(async (
     tableName: string,
-    primaryKey: string,
-    keyValue: any
+    key: RowKey
   ) => {
     if (!client) throw new Error('Not connected');
     
     try {
-      const { error } = await client
-        .from(tableName)
-        .delete()
-        .eq(primaryKey, keyValue);
-      
+      const keyEntries = await resolveRowKey(tableName, key);
+      await assertSingleRow(tableName, keyEntries);
+
+      let query = fromTable(client, tableName).delete();
+      for (const [column, value] of keyEntries) {
+        query = query.eq(column, value);
+      }
+
+      const { error } = await query;
       if (error) throw error;
     } catch (err) {
       throw new Error('Failed to delete row: ' + (err instanceof Error ? err.message : 'Unknown error'));
     }
-  }, [client]);
+  }, [client, resolveRowKey, assertSingleRow]);
 
-  const executeSQL = useCallback(async (query: string) => {
+  // Errors are passed through unchanged so callers can read the Postgres code and position
+  const executeSQL = useCallback(async (query: string): Promise<SQLResult> => {
     if (!client) throw new Error('Not connected');
-    
+    if (!sqlProvider.current) {
+      throw new Error('SQL execution is not configured. Set up an SQL provider under Settings.');
+    }
+
+    return executeWithProvider(client, sqlProvider.current, query);
+  }, [client]);
+
+  // Verifies a provider with a trivial query before executeSQL starts using it
+  const configureSQLProvider = useCallback(async (config: SQLProviderConfig): Promise<SQLProviderStatus> => {
+    if (!client || !connection) throw new Error('Not connected');
+
+    let status: SQLProviderStatus;
     try {
-      // Note: Direct SQL execution is not available without custom RPC functions
-      // This would require creating a custom function in your Supabase database
-      throw new Error('Direct SQL execution requires custom database functions. Please use the table interface instead.');
+      await executeWithProvider(client, config, 'select 1 as ok');
+      sqlProvider.current = config;
+      saveSQLProviderConfig(connection.url, config);
+      status = { provider: config.type, available: true };
     } catch (err) {
-      throw new Error('SQL execution not available: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      sqlProvider.current = null;
+      status = {
+        provider: config.type,
+        available: false,
+        error: err instanceof Error ? err.message : 'Unknown error'
+      };
     }
-  }, [client]);
+
+    setSQLStatus(status);
+    return status;
+  }, [client, connection]);
+
+  /**
+   * Re-enables the provider saved for this project, or the default RPC
+   * function when the API exposes one. The Management API needs its access
+   * token entered again, so it is only reported as configured.
+   */
+  const detectSQLProvider = useCallback(async (): Promise<SQLProviderStatus> => {
+    if (!connection) throw new Error('Not connected');
+
+    const saved = loadSQLProviderConfig(connection.url);
+    if (saved?.type === 'management-api') {
+      const status: SQLProviderStatus = {
+        provider: 'management-api',
+        available: false,
+        error: 'Enter your access token under Settings to enable SQL execution.'
+      };
+      setSQLStatus(status);
+      return status;
+    }
+
+    const functionName = saved?.functionName || DEFAULT_SQL_FUNCTION;
+    try {
+      const { schema, table: name } = parseTableName(functionName);
+      const spec = schemaDocuments.current[schema] || await fetchSchemaDocument(schema);
+      if (!spec.paths?.[`/rpc/${name}`]) {
+        setSQLStatus(NO_SQL_PROVIDER);
+        return NO_SQL_PROVIDER;
+      }
+    } catch {
+      setSQLStatus(NO_SQL_PROVIDER);
+      return NO_SQL_PROVIDER;
+    }
+
+    return configureSQLProvider({ type: 'rpc', functionName });
+  }, [connection, fetchSchemaDocument, configureSQLProvider]);
 
   return {
     client,
@@ -392,12 +683,19 @@ export const useSupabase = () => {
     loading,
     connect,
     disconnect,
+    getSchemas,
     getTables,
     getColumns,
+    getFunctions,
+    callFunction,
     getTableData,
+    getAllRows,
     insertRow,
     updateRow,
     deleteRow,
-    executeSQL
+    executeSQL,
+    sqlStatus,
+    configureSQLProvider,
+    detectSQLProvider
   };
 };
\ No newline at end of file
@@ -4,39 +4,384 @@ export interface DatabaseConnection {
   name?: string;
 }
 
+export interface ForeignKeyReference {
+  table: string;
+  column: string;
+}
+
+export interface TableForeignKey extends ForeignKeyReference {
+  // Column of this table that holds the reference
+  source_column: string;
+}
+
 export interface TableInfo {
   table_name: string;
   table_schema: string;
+  // 'BASE TABLE', or 'VIEW' for read-only relations
   table_type: string;
+  primary_key?: string[];
+  foreign_keys?: TableForeignKey[];
 }
 
 export interface ColumnInfo {
   column_name: string;
   data_type: string;
-  is_nullable: string;
+  // 'NO' for NOT NULL columns; null when the source does not say
+  is_nullable: 'YES' | 'NO' | null;
   column_default: string | null;
   ordinal_position: number;
   character_maximum_length?: number;
   numeric_precision?: number;
   numeric_scale?: number;
+  // OpenAPI type of the column (string, integer, number, boolean, array, object)
+  json_type?: string;
+  // Postgres type as reported by PostgREST, e.g. "timestamp with time zone" or "text[]"
+  format?: string;
+  // NOT NULL without a default, so inserts must give a value
+  is_required?: boolean;
+  enum_values?: string[];
+  description?: string;
+  is_primary_key?: boolean;
+  foreign_key?: ForeignKeyReference;
+}
+
+// Table details the PostgREST schema leaves out, read from the system catalog when SQL execution is available
+export interface TableCatalogInfo {
+  // UNIQUE and CHECK constraints, with definitions as printed by pg_get_constraintdef
+  constraints: { name: string; definition: string }[];
+  // Foreign keys like constraints, with the qualified name of the referenced table
+  foreignKeys: { name: string; definition: string; references: string }[];
+  notNullColumns: string[];
+  identityColumns: Record<string, 'ALWAYS' | 'BY DEFAULT'>;
+  // Columns computed by GENERATED ALWAYS AS (...), which reject written values
+  generatedColumns: string[];
+}
+
+// Values of every primary key column of a row, used to address exactly one row
+export type RowKey = Record<string, unknown>;
+
+export interface FunctionParameter {
+  name: string;
+  type?: string;
+  format?: string;
+  required: boolean;
+}
+
+export interface FunctionInfo {
+  function_name: string;
+  function_schema: string;
+  description?: string;
+  parameters: FunctionParameter[];
+  methods: ('GET' | 'POST')[];
 }
 
+export type AppView = 'tables' | 'functions' | 'export' | 'import' | 'sql' | 'settings';
+
 export interface TableData {
   columns: ColumnInfo[];
   rows: Record<string, any>[];
   totalRows: number;
 }
 
+export interface FetchProgress {
+  fetched: number;
+  // Exact row count reported by PostgREST, null when it could not be determined
+  total: number | null;
+}
+
+export interface FetchAllResult {
+  rows: Record<string, unknown>[];
+  expectedCount: number | null;
+  // False when a table without a primary key took several pages that could not be fully ordered
+  stableOrder: boolean;
+}
+
+export type ExportFormat = 'json' | 'sql' | 'csv' | 'tsv';
+
 export interface ExportOptions {
-  format: 'json' | 'sql';
+  format: ExportFormat;
   tables: string[];
   includeSchema: boolean;
   includeData: boolean;
+  // CSV/TSV only; TSV always uses a tab
+  delimiter?: string;
+  includeHeader?: boolean;
+}
+
+export interface ExportedTable {
+  // null when the columns could not be read
+  schema?: ColumnInfo[] | null;
+  data?: Record<string, unknown>[];
+  schemaError?: string;
+  dataError?: string;
+}
+
+/**
+ * Envelope of a JSON export. Files written before versioning were a bare
+ * object keyed by table name (format version 1) and are migrated on import.
+ */
+export interface ExportFile {
+  formatVersion: 2;
+  generator: string;
+  // Project URL only; the API key is never written to an export
+  source: { url: string };
+  createdAt: string;
+  // Keyed by schema-qualified table name
+  tables: Record<string, ExportedTable>;
+}
+
+export interface ExportValidationIssue {
+  // JSON path of the offending value, e.g. $.tables["public.users"].data[3]
+  path: string;
+  message: string;
+}
+
+export interface ManifestTableEntry {
+  name: string;
+  file: string;
+  rowCount: number;
+  columns: ColumnInfo[] | null;
+  sha256: string;
+}
+
+// manifest.json at the root of a ZIP bundle export
+export interface ExportManifest {
+  generator: string;
+  exportedAt: string;
+  // Project URL only; the API key is never written to an export
+  source: { url: string };
+  format: ExportFormat;
+  tables: ManifestTableEntry[];
+}
+
+export interface ImportRowFailure {
+  table: string;
+  // Position of the row in the table's data array in the import file
+  index: number;
+  error: string;
+  code?: string;
+  // Line of the INSERT statement the row came from, for SQL imports
+  line?: number;
+}
+
+// A statement in an SQL import that was not run
+export interface SkippedStatement {
+  line: number;
+  keyword: string;
+  reason: string;
+}
+
+// How rows that already exist in the target table are handled
+export type ConflictStrategy = 'fail' | 'ignore' | 'upsert' | 'mirror';
+
+export interface TableImportOptions {
+  strategy: ConflictStrategy;
+  // Columns that identify a row for ignore/upsert/mirror; empty means the primary key
+  conflictColumns: string[];
 }
 
 export interface ImportResult {
   tablesProcessed?: number;
   rowsInserted?: number;
+  // Duplicates left out by the 'ignore' strategy
+  rowsSkipped?: number;
+  rowsDeleted?: number;
   statementsExecuted?: number;
+  statementsSkipped?: SkippedStatement[];
+  sequencesReset?: number;
+  // Rows skipped because an interrupted run of the same file had already written them
+  rowsResumed?: number;
+  // Rows whose self-referencing or circular foreign keys were set after all tables were written
+  referencesSet?: number;
+  // The import was cancelled; the counts cover what was written before it stopped
+  cancelled?: boolean;
+  failedRows?: ImportRowFailure[];
+  errors: string[];
+}
+
+// What an import changed in one table, kept so the import can be undone
+export interface ImportJournalTable {
+  table: string;
+  // Primary key columns, which identify the rows below
+  keyColumns: string[];
+  // Tables this one references, so undo can delete children before their parents
+  references: string[];
+  // Rows that did not exist before the import
+  insertedKeys: RowKey[];
+  // Rows the import overwrote or deleted, as they were before
+  previousRows: Record<string, unknown>[];
+  // Columns Postgres fills in itself, left out when previousRows are written back; known only with SQL execution
+  generatedColumns?: string[];
+}
+
+export interface ImportJournal {
+  id: string;
+  targetUrl: string;
+  fileName: string;
+  createdAt: string;
+  tables: ImportJournalTable[];
+  // Tables that were written to without tracking every row: no primary key, rows that could not be read back, or too many rows
+  untrackedTables: string[];
+  // SQL statements other than INSERT, which ran as they are and cannot be undone
+  untrackedStatements?: number;
+}
+
+export interface ImportUndoResult {
+  rowsDeleted: number;
+  rowsRestored: number;
   errors: string[];
-}
\ No newline at end of file
+}
+
+export interface TableImportProgress {
+  // Rows (or statements) handled so far, including those a resumed import skipped
+  done: number;
+  total: number;
+}
+
+// Progress of a table-file import, saved after every chunk so an interrupted import can resume
+export interface ImportCheckpoint {
+  // `${targetUrl}|${fileHash}`
+  id: string;
+  targetUrl: string;
+  fileHash: string;
+  fileName: string;
+  // Tables already written completely, and the leading rows of `table` sent so far
+  completedTables: string[];
+  table: string | null;
+  rowsDone: number;
+  updatedAt: string;
+}
+
+// Backends that can run arbitrary SQL, which PostgREST itself cannot
+export type SQLProviderConfig =
+  | {
+      type: 'rpc';
+      // Function taking a single `query text` argument, optionally schema-qualified
+      functionName: string;
+    }
+  | {
+      type: 'management-api';
+      // Personal access token; kept in memory only
+      accessToken: string;
+      projectRef: string;
+      // https://api.supabase.com, or a local server that implements the same endpoint
+      baseUrl: string;
+    };
+
+export interface SQLResult {
+  rows: Record<string, unknown>[];
+  // False when the statement ran without returning rows (DDL, DML, scripts)
+  hasResultSet: boolean;
+}
+
+export interface SQLProviderStatus {
+  provider: SQLProviderConfig['type'] | null;
+  available: boolean;
+  error?: string;
+}
+
+export interface SQLHistoryEntry {
+  query: string;
+  executedAt: string;
+  // Rows returned, or the error message when the query failed; neither for statements without a result set
+  rowCount?: number;
+  error?: string;
+}
+
+// Values computed in the browser for each imported row, mirroring common column defaults
+export type DefaultExpression = 'now()' | 'current_date' | 'gen_random_uuid()' | 'null';
+
+export type ColumnFill =
+  | { kind: 'constant'; value: string }
+  | { kind: 'expression'; expression: DefaultExpression };
+
+export interface TableMapping {
+  // Qualified target table, or null to leave the source table out of the import
+  target: string | null;
+  // Source column -> target column, or null to drop it; unlisted columns keep their name
+  columns: Record<string, string | null>;
+  // Values written to target columns on every row
+  fills: Record<string, ColumnFill>;
+}
+
+// Keyed by the table name in the import file
+export type ImportMapping = Record<string, TableMapping>;
+
+export interface SavedMapping {
+  name: string;
+  savedAt: string;
+  mapping: ImportMapping;
+}
+
+// A single value in the import file that the target column would reject
+export interface DryRunValueIssue {
+  // Position of the row in the table's data array in the import file
+  index: number;
+  column: string;
+  message: string;
+}
+
+export interface DryRunTableReport {
+  table: string;
+  exists: boolean;
+  rowCount: number;
+  // Columns present in the file but not in the target table
+  unknownColumns: string[];
+  typeMismatches: DryRunValueIssue[];
+  typeMismatchCount: number;
+  notNullViolations: DryRunValueIssue[];
+  notNullViolationCount: number;
+  keyColumns: string[];
+  // File rows whose key is already present in the target table
+  existingKeyCount: number;
+}
+
+// Outcome of comparing an import file with the target database without writing to it
+export interface DryRunResult {
+  createdAt: string;
+  // Database the file was compared with
+  target: { url: string };
+  tables: DryRunTableReport[];
+  errors: string[];
+}
+
+// Subset of the OpenAPI (Swagger 2.0) document served by PostgREST at /rest/v1/
+export interface OpenAPIProperty {
+  type?: string;
+  format?: string;
+  description?: string;
+  default?: string | number | boolean | null;
+  maxLength?: number;
+  enum?: string[];
+  items?: { type?: string; format?: string };
+}
+
+export interface OpenAPIDefinition {
+  type?: string;
+  description?: string;
+  required?: string[];
+  properties?: Record<string, OpenAPIProperty>;
+}
+
+export interface OpenAPIParameter {
+  name?: string;
+  in?: string;
+  type?: string;
+  format?: string;
+  required?: boolean;
+  schema?: OpenAPIDefinition;
+  $ref?: string;
+}
+
+export interface OpenAPIOperation {
+  summary?: string;
+  description?: string;
+  parameters?: OpenAPIParameter[];
+}
+
+export interface OpenAPISpec {
+  swagger?: string;
+  info?: { title?: string; description?: string; version?: string };
+  paths?: Record<string, Record<string, OpenAPIOperation>>;
+  definitions?: Record<string, OpenAPIDefinition>;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { ConnectionLostError, insertInChunks } from './batchInsert';
+
+type Row = Record<string, unknown>;
+
+/**
+ * A client whose requests reach a fake PostgREST: a write fails with 23505
+ * when any row in it has `bad` set, and succeeds otherwise. Rows with `dup`
+ * set exist already, so ignore-duplicates leaves them out of the response.
+ */
+const createFakeClient = () => {
+  const batches: Row[][] = [];
+  const fetch = async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const batch = JSON.parse(String(init?.body)) as Row[];
+    batches.push(batch);
+    if (batch.some(row => row.bad)) {
+      return new Response(JSON.stringify({ code: '23505', message: 'duplicate key value' }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    const ignoring = new Headers(init?.headers).get('Prefer')?.includes('resolution=ignore-duplicates');
+    const written = ignoring ? batch.filter(row => !row.dup) : batch;
+    return new Response(JSON.stringify(written), { status: 201, headers: { 'Content-Type': 'application/json' } });
+  };
+  const client = createClient('http://localhost:54321', 'anon-key', { global: { fetch } });
+  return { client, batches };
+};
+
+const rowsWithBadIndexes = (count: number, bad: number[]): Row[] =>
+  Array.from({ length: count }, (_, id) => ({ id, bad: bad.includes(id) }));
+
+describe('insertInChunks', () => {
+  it('writes each chunk in one request when nothing fails', async () => {
+    const { client, batches } = createFakeClient();
+    const result = await insertInChunks(client, 'public.items', rowsWithBadIndexes(10, []), { chunkSize: 4 });
+
+    expect(result.inserted).toBe(10);
+    expect(result.failures).toEqual([]);
+    expect(batches.map(batch => batch.length)).toEqual([4, 4, 2]);
+  });
+
+  it('bisects a failing chunk down to the rows that fail', async () => {
+    const { client } = createFakeClient();
+    const result = await insertInChunks(client, 'public.items', rowsWithBadIndexes(8, [2, 7]), { chunkSize: 8 });
+
+    expect(result.inserted).toBe(6);
+    expect(result.failures.map(failure => failure.index)).toEqual([2, 7]);
+    expect(result.failures[0]).toMatchObject({ table: 'public.items', code: '23505', error: 'duplicate key value' });
+  });
+
+  it('reports failure indexes relative to the whole input across chunks', async () => {
+    const { client } = createFakeClient();
+    const result = await insertInChunks(client, 'public.items', rowsWithBadIndexes(10, [5]), { chunkSize: 4 });
+
+    expect(result.inserted).toBe(9);
+    expect(result.failures.map(failure => failure.index)).toEqual([5]);
+  });
+
+  it('counts only the rows the ignore strategy actually inserted', async () => {
+    const { client } = createFakeClient();
+    const rows = [{ id: 1 }, { id: 2, dup: true }, { id: 3 }, { id: 4, dup: true }];
+    const result = await insertInChunks(client, 'public.items', rows, { strategy: 'ignore', chunkSize: 3 });
+
+    expect(result.inserted).toBe(2);
+    expect(result.skipped).toBe(2);
+  });
+
+  it('reports progress after every chunk', async () => {
+    const { client } = createFakeClient();
+    const progress: number[][] = [];
+    await insertInChunks(client, 'public.items', rowsWithBadIndexes(5, [0]), {
+      chunkSize: 2,
+      onChunk: (inserted, failed, processed) => progress.push([inserted, failed, processed])
+    });
+
+    expect(progress).toEqual([[1, 1, 2], [3, 1, 4], [4, 1, 5]]);
+  });
+
+  it('stops before the next chunk once aborted', async () => {
+    const { client, batches } = createFakeClient();
+    const controller = new AbortController();
+    const result = await insertInChunks(client, 'public.items', rowsWithBadIndexes(6, []), {
+      chunkSize: 2,
+      signal: controller.signal,
+      onChunk: () => controller.abort()
+    });
+
+    expect(result.inserted).toBe(2);
+    expect(batches).toHaveLength(1);
+  });
+
+  it('writes the rest untracked when the written rows may not be read back', async () => {
+    const requests: (string | null)[] = [];
+    const fetch = async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const prefer = new Headers(init?.headers).get('Prefer');
+      requests.push(prefer);
+      return prefer?.includes('return=representation')
+        ? new Response(JSON.stringify({ code: '42501', message: 'new row violates row-level security policy' }), {
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          })
+        : new Response(null, { status: 201 });
+    };
+    const client = createClient('http://localhost:54321', 'anon-key', { global: { fetch } });
+    const result = await insertInChunks(client, 'public.items', rowsWithBadIndexes(4, []), { chunkSize: 2, trackKeys: ['id'] });
+
+    expect(result).toMatchObject({ inserted: 4, failures: [], insertedKeys: [], tracked: false });
+    expect(requests.map(prefer => prefer?.includes('return=representation'))).toEqual([true, false, false]);
+  });
+
+  it('does not bisect when the request never reached the server', async () => {
+    const fetch = async () => {
+      throw new TypeError('Failed to fetch');
+    };
+    const client = createClient('http://localhost:54321', 'anon-key', { global: { fetch } });
+
+    await expect(insertInChunks(client, 'public.items', rowsWithBadIndexes(4, []))).rejects.toBeInstanceOf(ConnectionLostError);
+  });
+});
@@ -0,0 +1,163 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ConflictStrategy, ImportRowFailure, RowKey, TableImportOptions } from '../types/database';
+import { fetchRowsByKeys, getKeyString, pickKey } from './rowKeys';
+import { fromTable } from './tableName';
+
+export const DEFAULT_CHUNK_SIZE = 500;
+export const DEFAULT_TABLE_OPTIONS: TableImportOptions = { strategy: 'fail', conflictColumns: [] };
+
+export interface BatchInsertOptions {
+  chunkSize?: number;
+  strategy?: ConflictStrategy;
+  // on_conflict target for ignore/upsert/mirror; PostgREST uses the primary key when empty
+  conflictColumns?: string[];
+  // Called after each chunk; `processed` counts the leading rows that have been sent
+  onChunk?: (inserted: number, failed: number, processed: number) => void;
+  // Checked before each chunk; an aborted insert returns what was written so far
+  signal?: AbortSignal;
+  // Primary key columns to report the written rows by; upsert and mirror first read the rows they overwrite
+  trackKeys?: string[];
+}
+
+export interface BatchInsertResult {
+  inserted: number;
+  // Rows the 'ignore' strategy left out because they already existed
+  skipped: number;
+  failures: ImportRowFailure[];
+  // With `trackKeys`: rows that are new, and earlier versions of the rows that were overwritten
+  insertedKeys: RowKey[];
+  overwrittenRows: Record<string, unknown>[];
+  // Whether the two lists above cover every written row; false without `trackKeys` or when rows could not be read back
+  tracked: boolean;
+}
+
+// The request never reached the API, so splitting the chunk would only repeat the failure row by row
+export class ConnectionLostError extends Error {
+  constructor(tableName: string, message: string) {
+    super(`Lost the connection while writing to ${tableName}: ${message}`);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+const describeError = (tableName: string, error: { message: string; code?: string }): string => {
+  // Special handling for RLS policy errors
+  if (error.code === '42P17') {
+    return `RLS Policy Error in ${tableName}: ${error.message}. This table has Row Level Security policies that prevent data insertion.`;
+  }
+  return error.message;
+};
+
+/**
+ * Inserts rows as arrays of `chunkSize`. A failing chunk is split in half
+ * until the offending rows are isolated, so one bad row only costs itself;
+ * every other row of the chunk is still written. When the written rows may
+ * not be read back, the rest are written without reading them, and the
+ * result is no longer `tracked`; 'ignore' then counts every row as inserted.
+ */
+export const insertInChunks = async (
+  client: SupabaseClient,
+  tableName: string,
+  rows: Record<string, unknown>[],
+  { chunkSize = DEFAULT_CHUNK_SIZE, strategy = 'fail', conflictColumns = [], onChunk, signal, trackKeys }: BatchInsertOptions = {}
+): Promise<BatchInsertResult> => {
+  const result: BatchInsertResult = { inserted: 0, skipped: 0, failures: [], insertedKeys: [], overwrittenRows: [], tracked: !!trackKeys };
+  const overwrites = strategy === 'upsert' || strategy === 'mirror';
+  const matchColumns = conflictColumns.length > 0 ? conflictColumns : trackKeys || [];
+  // Ignored duplicates are not returned, so every returned row was inserted or overwritten
+  let returnColumns = trackKeys || (strategy === 'ignore' ? matchColumns : null);
+
+  // defaultToNull: false lets columns a row leaves out fall back to their defaults
+  const writeBatch = (batch: Record<string, unknown>[], returning: string[] | null) => {
+    const query = fromTable(client, tableName);
+    const write = strategy === 'fail'
+      ? query.insert(batch, { defaultToNull: false })
+      : query.upsert(batch, {
+          onConflict: conflictColumns.length > 0 ? conflictColumns.join(',') : undefined,
+          ignoreDuplicates: strategy === 'ignore',
+          defaultToNull: false
+        });
+    return returning
+      ? write.select(returning.join(',') || '*').overrideTypes<Record<string, unknown>[], { merge: false }>()
+      : write;
+  };
+
+  // Rows of the current chunk that exist already, by primary key; read before an upsert overwrites them
+  let existingRows = new Map<string, Record<string, unknown>>();
+
+  const readExistingRows = async (chunk: Record<string, unknown>[]) => {
+    const keys = chunk
+      .map(row => pickKey(row, matchColumns))
+      .filter(key => matchColumns.every(column => key[column] !== undefined && key[column] !== null));
+    const rows = await fetchRowsByKeys(client, tableName, matchColumns, keys);
+    existingRows = new Map(rows.map(row => [getKeyString(row, trackKeys!), row]));
+  };
+
+  const trackWrittenRows = (written: Record<string, unknown>[]) => {
+    for (const row of written) {
+      const previous = existingRows.get(getKeyString(row, trackKeys!));
+      if (previous) {
+        result.overwrittenRows.push(previous);
+      } else {
+        result.insertedKeys.push(pickKey(row, trackKeys!));
+      }
+    }
+  };
+
+  const insertRange = async (offset: number, batch: Record<string, unknown>[]) => {
+    let { data, error, status } = await writeBatch(batch, returnColumns);
+
+    // RLS may allow INSERT but not SELECT, which fails writes that read their rows back; those rows go in untracked
+    if (error?.code === '42501' && returnColumns) {
+      const retry = await writeBatch(batch, null);
+      if (!retry.error) {
+        returnColumns = null;
+        result.tracked = false;
+      }
+      ({ data, error, status } = retry);
+    }
+
+    if (!error) {
+      const written = returnColumns ? (data || []).length : batch.length;
+      result.inserted += written;
+      result.skipped += batch.length - written;
+      if (trackKeys && returnColumns) trackWrittenRows(data || []);
+      return;
+    }
+
+    // postgrest-js reports fetch failures with status 0
+    if (status === 0) {
+      throw new ConnectionLostError(tableName, error.message);
+    }
+
+    if (batch.length === 1) {
+      result.failures.push({
+        table: tableName,
+        index: offset,
+        error: describeError(tableName, error),
+        code: error.code
+      });
+      return;
+    }
+
+    const middle = Math.ceil(batch.length / 2);
+    await insertRange(offset, batch.slice(0, middle));
+    await insertRange(offset + middle, batch.slice(middle));
+  };
+
+  const size = Math.max(1, Math.floor(chunkSize));
+  for (let start = 0; start < rows.length; start += size) {
+    if (signal?.aborted) break;
+    const chunk = rows.slice(start, start + size);
+    if (trackKeys && overwrites && matchColumns.length > 0) {
+      try {
+        await readExistingRows(chunk);
+      } catch (error) {
+        throw new Error(`Could not read the rows about to be overwritten in ${tableName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    await insertRange(start, chunk);
+    onChunk?.(result.inserted, result.failures.length, Math.min(start + size, rows.length));
+  }
+
+  return result;
+};
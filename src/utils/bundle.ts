@@ -0,0 +1,107 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { ColumnInfo, ExportFormat, ExportManifest, ManifestTableEntry } from '../types/database';
+import { sha256Hex } from './checksum';
+import { GENERATOR_NAME } from './exportFile';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+export interface BundleTableFile {
+  name: string;
+  filename: string;
+  content: string;
+  rowCount: number;
+  columns: ColumnInfo[] | null;
+}
+
+export interface ExportBundle {
+  manifest: ExportManifest;
+  // File contents keyed by the filename recorded in the manifest
+  files: Record<string, string>;
+}
+
+/**
+ * Packs one file per table plus a manifest.json with row counts, column
+ * metadata and a SHA-256 checksum of every table file.
+ */
+export const createExportBundle = async (
+  tables: BundleTableFile[],
+  format: ExportFormat,
+  sourceUrl: string
+): Promise<Uint8Array> => {
+  const entries: Record<string, Uint8Array> = {};
+  const manifestTables: ManifestTableEntry[] = [];
+
+  for (const table of tables) {
+    const bytes = strToU8(table.content);
+    entries[table.filename] = bytes;
+    manifestTables.push({
+      name: table.name,
+      file: table.filename,
+      rowCount: table.rowCount,
+      columns: table.columns,
+      sha256: await sha256Hex(bytes)
+    });
+  }
+
+  const manifest: ExportManifest = {
+    generator: GENERATOR_NAME,
+    exportedAt: new Date().toISOString(),
+    source: { url: sourceUrl },
+    format,
+    tables: manifestTables
+  };
+  entries[MANIFEST_FILENAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(entries);
+};
+
+/**
+ * Unpacks a bundle and verifies every table file against the checksum in the
+ * manifest. Throws before anything is returned if a file is missing or altered.
+ */
+export const readExportBundle = async (archive: Uint8Array): Promise<ExportBundle> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(archive);
+  } catch (err) {
+    throw new Error('Invalid ZIP archive: ' + (err instanceof Error ? err.message : 'Unknown error'));
+  }
+
+  const manifestBytes = entries[MANIFEST_FILENAME];
+  if (!manifestBytes) {
+    throw new Error(`ZIP archive has no ${MANIFEST_FILENAME}`);
+  }
+
+  let manifest: ExportManifest;
+  try {
+    manifest = JSON.parse(strFromU8(manifestBytes));
+  } catch {
+    throw new Error(`${MANIFEST_FILENAME} is not valid JSON`);
+  }
+  if (!manifest || !Array.isArray(manifest.tables)) {
+    throw new Error(`${MANIFEST_FILENAME} does not list any tables`);
+  }
+
+  const problems: string[] = [];
+  const files: Record<string, string> = {};
+
+  for (const table of manifest.tables) {
+    const bytes = entries[table.file];
+    if (!bytes) {
+      problems.push(`${table.file} is listed in the manifest but missing from the archive`);
+      continue;
+    }
+    const checksum = await sha256Hex(bytes);
+    if (checksum !== table.sha256) {
+      problems.push(`${table.file} does not match its checksum`);
+      continue;
+    }
+    files[table.file] = strFromU8(bytes);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Bundle verification failed: ${problems.join('; ')}`);
+  }
+
+  return { manifest, files };
+};
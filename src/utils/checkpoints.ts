@@ -0,0 +1,32 @@
+import { ImportCheckpoint } from '../types/database';
+import { sha256Hex } from './checksum';
+import { CHECKPOINT_STORE, runRequest } from './localDatabase';
+
+const SAMPLE_SIZE = 1024 * 1024;
+
+/**
+ * Identifies a file by its size and a hash of its first and last megabyte.
+ * Hashing every byte of a multi-hundred-megabyte backup would mean holding
+ * it in memory just to recognise it again.
+ */
+export const getFileFingerprint = async (file: File): Promise<string> => {
+  const head = new Uint8Array(await file.slice(0, SAMPLE_SIZE).arrayBuffer());
+  const tail = new Uint8Array(await file.slice(Math.max(SAMPLE_SIZE, file.size - SAMPLE_SIZE)).arrayBuffer());
+  const sample = new Uint8Array(head.length + tail.length);
+  sample.set(head);
+  sample.set(tail, head.length);
+  return `${file.size}-${await sha256Hex(sample)}`;
+};
+
+export const getCheckpointId = (targetUrl: string, fileHash: string): string => `${targetUrl}|${fileHash}`;
+
+export const loadCheckpoint = async (targetUrl: string, fileHash: string): Promise<ImportCheckpoint | null> =>
+  (await runRequest<ImportCheckpoint | undefined>(CHECKPOINT_STORE, 'readonly', store => store.get(getCheckpointId(targetUrl, fileHash)))) || null;
+
+export const saveCheckpoint = async (checkpoint: ImportCheckpoint): Promise<void> => {
+  await runRequest(CHECKPOINT_STORE, 'readwrite', store => store.put({ ...checkpoint, updatedAt: new Date().toISOString() }));
+};
+
+export const deleteCheckpoint = async (id: string): Promise<void> => {
+  await runRequest(CHECKPOINT_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,8 @@
+// Hex-encoded SHA-256 digest computed with the Web Crypto API
+export const sha256Hex = async (data: Uint8Array | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
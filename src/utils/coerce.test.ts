@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnInfo } from '../types/database';
+import { coerceFile, coerceValue } from './coerce';
+import { createExportFile } from './exportFile';
+
+const column = (json_type: string, format?: string): ColumnInfo => ({
+  column_name: 'value',
+  data_type: format || json_type,
+  is_nullable: 'YES',
+  column_default: null,
+  ordinal_position: 1,
+  json_type,
+  format
+});
+
+describe('coerceValue', () => {
+  it('keeps empty strings for text columns and turns them into null elsewhere', () => {
+    expect(coerceValue('', column('string', 'text'))).toBe('');
+    expect(coerceValue('', column('string', 'character varying'))).toBe('');
+    expect(coerceValue('', column('integer', 'integer'))).toBeNull();
+    expect(coerceValue('', column('string', 'uuid'))).toBeNull();
+    expect(coerceValue(null, column('string', 'text'))).toBeNull();
+  });
+
+  it('converts integers and keeps bigints beyond 2^53 as text', () => {
+    expect(coerceValue(' 42 ', column('integer', 'integer'))).toBe(42);
+    expect(coerceValue('9007199254740993', column('integer', 'bigint'))).toBe('9007199254740993');
+    expect(coerceValue('4.5', column('integer', 'integer'))).toBe('4.5');
+  });
+
+  it('keeps numeric as exact text and converts floating point columns', () => {
+    expect(coerceValue('0.10', column('number', 'numeric'))).toBe('0.10');
+    expect(coerceValue('1e3', column('number', 'double precision'))).toBe(1000);
+  });
+
+  it('reads the usual boolean spellings', () => {
+    expect(coerceValue('Yes', column('boolean', 'boolean'))).toBe(true);
+    expect(coerceValue('f', column('boolean', 'boolean'))).toBe(false);
+    expect(coerceValue('maybe', column('boolean', 'boolean'))).toBe('maybe');
+  });
+
+  it('parses JSON and JSON arrays, leaving other text as it is', () => {
+    expect(coerceValue('{"a":1}', column('string', 'jsonb'))).toEqual({ a: 1 });
+    expect(coerceValue('not json', column('string', 'jsonb'))).toBe('not json');
+    expect(coerceValue('[1,2]', column('array', 'integer[]'))).toEqual([1, 2]);
+    expect(coerceValue('{1,2}', column('array', 'integer[]'))).toBe('{1,2}');
+  });
+
+  it('turns epochs into ISO timestamps and dates', () => {
+    expect(coerceValue('0000000000', column('string', 'timestamp with time zone'))).toBe('1970-01-01T00:00:00.000Z');
+    expect(coerceValue('1700000000000', column('string', 'date'))).toBe('2023-11-14');
+    expect(coerceValue('2024-01-02 03:04:05', column('string', 'timestamp without time zone'))).toBe('2024-01-02 03:04:05');
+  });
+
+  it('passes values through when the column is unknown', () => {
+    expect(coerceValue('12', undefined)).toBe('12');
+  });
+});
+
+describe('coerceFile', () => {
+  it('coerces each table with its own target columns', () => {
+    const file = createExportFile({
+      'public.items': { data: [{ value: '7', other: 'x' }] },
+      'public.unknown': { data: [{ value: '7' }] }
+    }, '');
+    const coerced = coerceFile(file, { 'public.items': [column('integer', 'integer')], 'public.unknown': null });
+
+    expect(coerced.tables['public.items'].data).toEqual([{ value: 7, other: 'x' }]);
+    expect(coerced.tables['public.unknown'].data).toEqual([{ value: '7' }]);
+  });
+});
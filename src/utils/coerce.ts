@@ -0,0 +1,116 @@
+import { ColumnInfo, ExportFile } from '../types/database';
+
+const INTEGER_PATTERN = /^[-+]?\d+$/;
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const EPOCH_PATTERN = /^\d{9,13}$/;
+// String formats whose columns can hold an empty string
+const TEXT_FORMAT_PATTERN = /^(text|character|citext|name|bytea)/;
+const TRUE_STRINGS = new Set(['true', 't', 'yes', 'y', 'on', '1']);
+const FALSE_STRINGS = new Set(['false', 'f', 'no', 'n', 'off', '0']);
+
+const parseJSONOr = (text: string, fallback: unknown): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+};
+
+const coerceTimestamp = (text: string, format: string): string => {
+  if (ISO_DATE_PATTERN.test(text)) return text;
+
+  // Unix epochs in seconds or milliseconds
+  if (EPOCH_PATTERN.test(text)) {
+    const epoch = Number(text);
+    const iso = new Date(text.length >= 13 ? epoch : epoch * 1000).toISOString();
+    return format === 'date' ? iso.slice(0, 10) : iso;
+  }
+
+  // Only zoned timestamps survive the conversion to UTC unchanged
+  if (format === 'timestamp with time zone' && !isNaN(Date.parse(text))) {
+    return new Date(text).toISOString();
+  }
+  return text;
+};
+
+/**
+ * Converts a text value from a CSV file to the JSON value PostgREST expects
+ * for the target column. Values that do not fit the column type are passed
+ * through unchanged so the database reports the error for that row.
+ * Empty strings are kept for text columns and become null for every other
+ * type, which has no empty value.
+ */
+export const coerceValue = (value: string | null, column: ColumnInfo | undefined): unknown => {
+  if (value === null || !column) return value;
+
+  const format = (column.format || '').toLowerCase();
+  const text = value.trim();
+  const isText = column.json_type === 'string' && (format === '' || TEXT_FORMAT_PATTERN.test(format));
+
+  if (value === '') return isText ? '' : null;
+  if (isText) return value;
+
+  if (format === 'json' || format === 'jsonb') {
+    // Anything that is not valid JSON is stored as a JSON string
+    return parseJSONOr(text, value);
+  }
+
+  if (format.endsWith('[]') || column.json_type === 'array') {
+    // JSON arrays are converted; Postgres array literals such as {1,2} are passed as text
+    return text.startsWith('[') ? parseJSONOr(text, value) : value;
+  }
+
+  switch (column.json_type) {
+    case 'integer': {
+      if (!INTEGER_PATTERN.test(text)) return value;
+      const num = Number(text);
+      // bigint values beyond 2^53 stay strings so no digits are lost
+      return Number.isSafeInteger(num) ? num : text;
+    }
+    case 'number':
+      if (!NUMERIC_PATTERN.test(text)) return value;
+      // numeric keeps its exact decimal text; floating point columns get numbers
+      return format === 'numeric' ? text : Number(text);
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_STRINGS.has(lower)) return true;
+      if (FALSE_STRINGS.has(lower)) return false;
+      return value;
+    }
+  }
+
+  if (format.startsWith('timestamp') || format === 'date') {
+    return coerceTimestamp(text, format);
+  }
+
+  return value;
+};
+
+export const coerceRow = (
+  row: Record<string, string | null>,
+  columnsByName: Map<string, ColumnInfo>
+): Record<string, unknown> =>
+  Object.entries(row).reduce((coerced, [name, value]) => {
+    coerced[name] = coerceValue(value, columnsByName.get(name));
+    return coerced;
+  }, {} as Record<string, unknown>);
+
+/**
+ * Coerces every table of a text-valued import file (from CSV) using the
+ * target columns of each table. Tables without column metadata are left as text.
+ */
+export const coerceFile = (file: ExportFile, targetColumns: Record<string, ColumnInfo[] | null>): ExportFile => {
+  const tables: ExportFile['tables'] = {};
+
+  Object.entries(file.tables).forEach(([tableName, tableData]) => {
+    const columnsByName = new Map((targetColumns[tableName] || []).map(col => [col.column_name, col]));
+    tables[tableName] = {
+      ...tableData,
+      // Rows read from CSV hold text or null
+      data: (tableData.data || []).map(row => coerceRow(row as Record<string, string | null>, columnsByName))
+    };
+  });
+
+  return { ...file, tables };
+};
@@ -0,0 +1,45 @@
+import { ColumnInfo } from '../types/database';
+
+export const inferDataType = (value: unknown): string => {
+  if (value === null || value === undefined) return 'text';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'numeric';
+  }
+  if (typeof value === 'string') {
+    // Check if it looks like a UUID
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+      return 'uuid';
+    }
+    // Check if it looks like a timestamp
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
+      return 'timestamp with time zone';
+    }
+    return 'text';
+  }
+  if (typeof value === 'object') return 'jsonb';
+  return 'text';
+};
+
+/**
+ * Guesses column metadata from result rows, for data that has no schema of
+ * its own (tables without an OpenAPI definition, function results). Each
+ * column is typed from its first non-null value.
+ */
+export const inferColumns = (rows: Record<string, unknown>[]): ColumnInfo[] => {
+  const names: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!names.includes(key)) names.push(key);
+  }));
+
+  return names.map((name, index) => {
+    const sample = rows.find(row => row[name] !== null && row[name] !== undefined);
+    return {
+      column_name: name,
+      data_type: inferDataType(sample?.[name]),
+      is_nullable: 'YES',
+      column_default: null,
+      ordinal_position: index + 1
+    };
+  });
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { detectHeader, parseCSV, recordsToRows, sniffDelimiter, toCSV } from './csv';
+
+describe('toCSV', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    const csv = toCSV([{ a: 'x,y', b: 'say "hi"', c: 'two\nlines' }]);
+    expect(csv).toBe('a,b,c\r\n"x,y","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('writes null as an empty field and an empty string as ""', () => {
+    expect(toCSV([{ a: null, b: '' }])).toBe('a,b\r\n,""\r\n');
+  });
+
+  it('writes objects and arrays as JSON text', () => {
+    expect(toCSV([{ tags: ['a', 'b'] }], ['tags'], { includeHeader: false })).toBe('"[""a"",""b""]"\r\n');
+  });
+});
+
+describe('parseCSV', () => {
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCSV('a,b\r\n"x,y","say ""hi""\nthere"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x,y', 'say "hi"\nthere']
+    ]);
+  });
+
+  it('tells unquoted empty fields (null) from quoted ones (empty string)', () => {
+    expect(parseCSV('1,,""\n')).toEqual([['1', null, '']]);
+  });
+
+  it('skips a byte order mark and blank lines', () => {
+    expect(parseCSV('\uFEFFa,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reads blank lines of a single column as null', () => {
+    expect(parseCSV('a\n\nb\n')).toEqual([['a'], [null], ['b']]);
+  });
+
+  it('accepts a last record without a line ending', () => {
+    expect(parseCSV('a;b\n1;2', ';')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCSV('a\n"open')).toThrow('Unterminated quoted field in record 2');
+  });
+
+  it('round-trips what toCSV writes', () => {
+    const rows = [
+      { id: '1', name: '', note: null },
+      { id: '2', name: 'a "b", c', note: 'line\r\nbreak' }
+    ];
+    const text = toCSV(rows, ['id', 'name', 'note'], { delimiter: '\t' });
+    expect(recordsToRows(parseCSV(text, '\t'), true)).toEqual(rows);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks the delimiter that splits every record into the same number of columns', () => {
+    expect(sniffDelimiter('a;b;c\n1;2;3\n4;5;6\n')).toBe(';');
+    expect(sniffDelimiter('a\tb\n1\t2\n')).toBe('\t');
+    expect(sniffDelimiter('a|b|c\n1|2|3\n')).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(sniffDelimiter('name;note\n"Smith, J";"a, b, c"\n')).toBe(';');
+  });
+
+  it('falls back to a comma', () => {
+    expect(sniffDelimiter('single\ncolumn\n')).toBe(',');
+  });
+});
+
+describe('detectHeader', () => {
+  it('detects a text header above numeric columns', () => {
+    expect(detectHeader(parseCSV('id,price\n1,9.99\n2,5\n'))).toBe(true);
+  });
+
+  it('rejects a numeric first record', () => {
+    expect(detectHeader(parseCSV('1,9.99\n2,5\n'))).toBe(false);
+  });
+
+  it('rejects empty or repeated names', () => {
+    expect(detectHeader(parseCSV('a,,c\n1,2,3\n'))).toBe(false);
+    expect(detectHeader(parseCSV('a,a\n1,2\n'))).toBe(false);
+  });
+
+  it('uses fixed-length columns as evidence', () => {
+    expect(detectHeader(parseCSV('code,country\nAB,NL\nCD,DE\n'))).toBe(true);
+    expect(detectHeader(parseCSV('XY,NL\nAB,DE\nCD,FR\n'))).toBe(false);
+  });
+});
+
+describe('recordsToRows', () => {
+  it('names columns after the header, or column_1, column_2, ... without one', () => {
+    expect(recordsToRows([['a', 'b'], ['1', '2']], true)).toEqual([{ a: '1', b: '2' }]);
+    expect(recordsToRows([['1', '2'], ['3']], false)).toEqual([
+      { column_1: '1', column_2: '2' },
+      { column_1: '3' }
+    ]);
+  });
+});
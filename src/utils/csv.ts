@@ -0,0 +1,207 @@
+export interface CSVOptions {
+  delimiter?: string;
+  includeHeader?: boolean;
+}
+
+// jsonb, arrays and other structured values are written as JSON text; null stays null
+const serializeValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * RFC 4180: quote fields containing the delimiter, quotes or line breaks,
+ * doubling embedded quotes. Following Postgres COPY, null is an empty field
+ * and an empty string is written quoted ("") so parseCSV tells them apart.
+ */
+const quoteField = (field: string | null, delimiter: string): string => {
+  if (field === null) return '';
+  if (field === '' || field.includes(delimiter) || field.includes('"') || field.includes('\n') || field.includes('\r')) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+};
+
+/**
+ * Collects the union of keys over all rows, in first-seen order, so rows
+ * with missing keys still line up under the right header.
+ */
+export const getRowColumns = (rows: Record<string, unknown>[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return Array.from(columns);
+};
+
+export const toCSV = (
+  rows: Record<string, unknown>[],
+  columns: string[] = getRowColumns(rows),
+  { delimiter = ',', includeHeader = true }: CSVOptions = {}
+): string => {
+  const lines: string[] = [];
+
+  if (includeHeader) {
+    lines.push(columns.map(col => quoteField(col, delimiter)).join(delimiter));
+  }
+
+  rows.forEach(row => {
+    lines.push(columns.map(col => quoteField(serializeValue(row[col]), delimiter)).join(delimiter));
+  });
+
+  // RFC 4180 uses CRLF line endings
+  return lines.length > 0 ? lines.join('\r\n') + '\r\n' : '';
+};
+
+// Unquoted empty fields are null and quoted empty fields ("") are empty strings, as in Postgres COPY
+export type CSVRecord = (string | null)[];
+
+/**
+ * Parses RFC 4180 text: fields may be quoted, contain the delimiter, doubled
+ * quotes and line breaks, and records may end with LF or CRLF. Blank lines are
+ * skipped when the first record has several fields; with a single column they
+ * are records holding null.
+ */
+export const parseCSV = (text: string, delimiter: string = ','): CSVRecord[] => {
+  const records: CSVRecord[] = [];
+  let record: CSVRecord = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Skip a byte order mark
+
+  const endField = () => {
+    record.push(field === '' && !quoted ? null : field);
+    field = '';
+    quoted = false;
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length - 1;
+    } else if (char === '\n' || char === '\r') {
+      endRecord();
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field in record ${records.length + 1}`);
+  }
+  if (field !== '' || quoted || record.length > 0) endRecord();
+
+  if (records.length > 0 && records[0].length === 1) return records;
+  return records.filter(fields => fields.length > 1 || fields[0] !== null);
+};
+
+const SNIFF_DELIMITERS = [',', ';', '\t', '|'];
+const SNIFF_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Picks the delimiter that splits a sample of the text into the most columns
+ * with the same field count on every record. Falls back to a comma.
+ */
+export const sniffDelimiter = (text: string): string => {
+  let sample = text.slice(0, SNIFF_SAMPLE_SIZE);
+  // Drop the trailing partial record when the text was cut
+  if (text.length > SNIFF_SAMPLE_SIZE) sample = sample.slice(0, sample.lastIndexOf('\n') + 1);
+
+  let best = { delimiter: ',', columns: 1 };
+  SNIFF_DELIMITERS.forEach(delimiter => {
+    let records: CSVRecord[];
+    try {
+      records = parseCSV(sample, delimiter).slice(0, 50);
+    } catch {
+      return;
+    }
+    if (records.length === 0) return;
+
+    const columns = records[0].length;
+    const consistent = records.every(record => record.length === columns);
+    if (consistent && columns > best.columns) best = { delimiter, columns };
+  });
+
+  return best.delimiter;
+};
+
+const looksNumeric = (value: string) => value.trim() !== '' && !isNaN(Number(value));
+
+/**
+ * Guesses whether the first record is a header by comparing it with the
+ * records below: a text value above a numeric column, or a length that stands
+ * out from fixed-length values, counts as evidence for a header.
+ */
+export const detectHeader = (records: CSVRecord[]): boolean => {
+  const [first, ...rest] = records;
+  if (!first) return false;
+
+  const names = first.filter((value): value is string => !!value);
+  if (names.length !== first.length || new Set(names).size !== names.length) return false;
+  if (rest.length === 0) return !names.some(looksNumeric);
+
+  const sample = rest.slice(0, 20);
+  let votes = 0;
+
+  first.forEach((header, index) => {
+    const values = sample.map(record => record[index]).filter((value): value is string => !!value);
+    if (values.length === 0) return;
+
+    if (looksNumeric(header!)) {
+      votes--;
+    } else if (values.every(looksNumeric)) {
+      votes++;
+    } else {
+      const length = values[0].length;
+      if (values.every(value => value.length === length)) {
+        votes += header!.length === length ? -1 : 1;
+      }
+    }
+  });
+
+  return votes > 0 || (votes === 0 && !names.some(looksNumeric));
+};
+
+/**
+ * Turns records into row objects keyed by the header, or by column_1,
+ * column_2, ... when the file has no header. Short records leave the
+ * remaining columns out so the database default applies.
+ */
+export const recordsToRows = (records: CSVRecord[], hasHeader: boolean): Record<string, string | null>[] => {
+  if (records.length === 0) return [];
+
+  const width = records.reduce((max, record) => Math.max(max, record.length), 0);
+  const columns = hasHeader
+    ? records[0].map((name, index) => name || `column_${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `column_${index + 1}`);
+
+  return (hasHeader ? records.slice(1) : records).map(record =>
+    record.reduce((row, value, index) => {
+      if (index < columns.length) row[columns[index]] = value;
+      return row;
+    }, {} as Record<string, string | null>)
+  );
+};
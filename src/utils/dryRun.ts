@@ -0,0 +1,142 @@
+import { ColumnInfo, DryRunTableReport, DryRunValueIssue } from '../types/database';
+import { getKeyString } from './rowKeys';
+
+// Keeps reports readable for large files; the counts still cover every row
+const MAX_ISSUES_PER_TABLE = 200;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const NUMERIC_PATTERN = /^-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BOOLEAN_STRINGS = new Set(['true', 'false', 't', 'f', 'yes', 'no', 'on', 'off', '1', '0']);
+
+const describeValue = (value: unknown): string => {
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > 40 ? text.slice(0, 37) + '...' : text;
+};
+
+/**
+ * Checks a non-null file value against the target column's type. Returns a
+ * description of the problem, or null when Postgres should accept the value.
+ * Columns without OpenAPI type information are not checked.
+ */
+export const checkValueType = (value: unknown, column: ColumnInfo): string | null => {
+  const format = (column.format || '').toLowerCase();
+  const mismatch = () => `${describeValue(value)} is not a valid ${column.format || column.json_type}`;
+
+  if (!column.json_type && !column.format) return null;
+
+  // json/jsonb columns accept any JSON value
+  if (format === 'json' || format === 'jsonb') return null;
+
+  if (format.endsWith('[]') || column.json_type === 'array') {
+    return Array.isArray(value) || (typeof value === 'string' && value.startsWith('{')) ? null : mismatch();
+  }
+
+  switch (column.json_type) {
+    case 'integer':
+      return Number.isInteger(value) || (typeof value === 'string' && INTEGER_PATTERN.test(value.trim()))
+        ? null
+        : mismatch();
+    case 'number':
+      return (typeof value === 'number' && isFinite(value)) || (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim()))
+        ? null
+        : mismatch();
+    case 'boolean':
+      return typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_STRINGS.has(value.toLowerCase()))
+        ? null
+        : mismatch();
+  }
+
+  if (typeof value === 'object') return mismatch();
+
+  const text = String(value);
+  if (column.enum_values && !column.enum_values.includes(text)) {
+    return `${describeValue(value)} is not one of ${column.enum_values.join(', ')}`;
+  }
+  if (format === 'uuid' && !UUID_PATTERN.test(text)) return mismatch();
+  if ((format === 'date' || format.startsWith('timestamp')) && isNaN(Date.parse(text))) return mismatch();
+  if (column.character_maximum_length && text.length > column.character_maximum_length) {
+    return `${describeValue(value)} is longer than ${column.character_maximum_length} characters`;
+  }
+
+  return null;
+};
+
+/**
+ * Compares one table of an import file with the target table's columns and
+ * existing keys. `targetColumns` is null when the table does not exist;
+ * `existingKeys` holds key strings from getKeyString for the target rows.
+ */
+export const analyzeTable = (
+  table: string,
+  rows: Record<string, unknown>[],
+  targetColumns: ColumnInfo[] | null,
+  keyColumns: string[],
+  existingKeys: Set<string>
+): DryRunTableReport => {
+  const report: DryRunTableReport = {
+    table,
+    exists: targetColumns !== null,
+    rowCount: rows.length,
+    unknownColumns: [],
+    typeMismatches: [],
+    typeMismatchCount: 0,
+    notNullViolations: [],
+    notNullViolationCount: 0,
+    keyColumns,
+    existingKeyCount: 0
+  };
+
+  if (!targetColumns) return report;
+
+  const columnsByName = new Map(targetColumns.map(col => [col.column_name, col]));
+  const unknownColumns = new Set<string>();
+  const requiredColumns = targetColumns.filter(col => col.is_required);
+
+  const addIssue = (list: DryRunValueIssue[], issue: DryRunValueIssue) => {
+    if (list.length < MAX_ISSUES_PER_TABLE) list.push(issue);
+  };
+
+  rows.forEach((row, index) => {
+    Object.entries(row).forEach(([name, value]) => {
+      const column = columnsByName.get(name);
+      if (!column) {
+        unknownColumns.add(name);
+        return;
+      }
+      if (value === null || value === undefined) return;
+
+      const problem = checkValueType(value, column);
+      if (problem) {
+        report.typeMismatchCount++;
+        addIssue(report.typeMismatches, { index, column: name, message: problem });
+      }
+    });
+
+    // PostgREST marks a column required when it is NOT NULL and has no default
+    requiredColumns.forEach(column => {
+      const value = row[column.column_name];
+      if (value === null || value === undefined) {
+        report.notNullViolationCount++;
+        addIssue(report.notNullViolations, {
+          index,
+          column: column.column_name,
+          message: value === null ? 'null in a NOT NULL column' : 'missing value for a NOT NULL column without a default'
+        });
+      }
+    });
+
+    if (keyColumns.length > 0 && existingKeys.has(getKeyString(row, keyColumns))) {
+      report.existingKeyCount++;
+    }
+  });
+
+  report.unknownColumns = Array.from(unknownColumns);
+  return report;
+};
+
+export const hasDryRunProblems = (report: DryRunTableReport): boolean =>
+  !report.exists ||
+  report.unknownColumns.length > 0 ||
+  report.typeMismatchCount > 0 ||
+  report.notNullViolationCount > 0;
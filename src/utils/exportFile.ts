@@ -0,0 +1,175 @@
+import { ExportedTable, ExportFile, ExportValidationIssue } from '../types/database';
+import { normalizeTableName } from './tableName';
+
+export const EXPORT_FORMAT_VERSION = 2;
+export const GENERATOR_NAME = 'supabase-db-manager';
+
+// Stop collecting after this many issues; a foreign file would otherwise report thousands
+const MAX_ISSUES = 50;
+
+export class ExportFileError extends Error {
+  issues: ExportValidationIssue[];
+
+  constructor(issues: ExportValidationIssue[]) {
+    super(
+      'Invalid export file:\n' +
+      issues.slice(0, 10).map(issue => `• ${issue.path}: ${issue.message}`).join('\n') +
+      (issues.length > 10 ? `\n• ... and ${issues.length - 10} more problems` : '')
+    );
+    this.name = 'ExportFileError';
+    this.issues = issues;
+  }
+}
+
+export const createExportFile = (tables: Record<string, ExportedTable>, sourceUrl: string): ExportFile => ({
+  formatVersion: EXPORT_FORMAT_VERSION,
+  generator: GENERATOR_NAME,
+  source: { url: sourceUrl },
+  createdAt: new Date().toISOString(),
+  tables
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+};
+
+const keyPath = (base: string, key: string): string => `${base}[${JSON.stringify(key)}]`;
+
+const validateTable = (table: unknown, path: string, issues: ExportValidationIssue[]) => {
+  if (!isObject(table)) {
+    issues.push({ path, message: `expected a table object, got ${describe(table)}` });
+    return;
+  }
+
+  if (!('schema' in table) && !('data' in table)) {
+    issues.push({ path, message: 'expected a table with "schema" and/or "data"' });
+    return;
+  }
+
+  if ('schema' in table && table.schema !== null) {
+    if (!Array.isArray(table.schema)) {
+      issues.push({ path: `${path}.schema`, message: `expected an array of columns, got ${describe(table.schema)}` });
+    } else {
+      table.schema.forEach((column: unknown, index: number) => {
+        const columnPath = `${path}.schema[${index}]`;
+        if (!isObject(column)) {
+          issues.push({ path: columnPath, message: `expected a column object, got ${describe(column)}` });
+        } else {
+          if (typeof column.column_name !== 'string' || !column.column_name) {
+            issues.push({ path: `${columnPath}.column_name`, message: 'expected a non-empty string' });
+          }
+          if (typeof column.data_type !== 'string') {
+            issues.push({ path: `${columnPath}.data_type`, message: 'expected a string' });
+          }
+        }
+      });
+    }
+  }
+
+  if ('data' in table) {
+    if (!Array.isArray(table.data)) {
+      issues.push({ path: `${path}.data`, message: `expected an array of rows, got ${describe(table.data)}` });
+    } else {
+      table.data.forEach((row: unknown, index: number) => {
+        if (issues.length < MAX_ISSUES && !isObject(row)) {
+          issues.push({ path: `${path}.data[${index}]`, message: `expected a row object, got ${describe(row)}` });
+        }
+      });
+    }
+  }
+
+  ['schemaError', 'dataError'].forEach(field => {
+    if (field in table && typeof table[field] !== 'string') {
+      issues.push({ path: `${path}.${field}`, message: 'expected a string' });
+    }
+  });
+};
+
+const validateTables = (tables: unknown, path: string, issues: ExportValidationIssue[]) => {
+  if (!isObject(tables)) {
+    issues.push({ path, message: `expected an object keyed by table name, got ${describe(tables)}` });
+    return;
+  }
+  if (Object.keys(tables).length === 0) {
+    issues.push({ path, message: 'the file contains no tables' });
+    return;
+  }
+  Object.entries(tables).forEach(([name, table]) => {
+    if (issues.length < MAX_ISSUES) validateTable(table, keyPath(path, name), issues);
+  });
+};
+
+// Version 1: the bare object keyed by table name that older releases wrote
+const migrateV1 = (data: Record<string, unknown>): ExportFile => {
+  const tables: Record<string, ExportedTable> = {};
+  Object.entries(data).forEach(([name, table]) => {
+    // v1 tables repeated their own name inside the entry; validation has checked the rest
+    const migrated = { ...(table as ExportedTable & { name?: string }) };
+    delete migrated.name;
+    tables[normalizeTableName(name)] = migrated;
+  });
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    generator: GENERATOR_NAME,
+    source: { url: '' },
+    createdAt: '',
+    tables
+  };
+};
+
+/**
+ * Checks a parsed JSON export against the current format, migrating older
+ * unversioned exports forward. Throws an ExportFileError listing the exact
+ * path of every malformed entry, so nothing is imported from a broken file.
+ */
+export const parseExportFile = (data: unknown): ExportFile => {
+  const issues: ExportValidationIssue[] = [];
+
+  if (!isObject(data)) {
+    throw new ExportFileError([{ path: '$', message: `expected an object, got ${describe(data)}` }]);
+  }
+
+  if (!('formatVersion' in data)) {
+    validateTables(data, '$', issues);
+    if (issues.length > 0) throw new ExportFileError(issues);
+    return migrateV1(data);
+  }
+
+  if (typeof data.formatVersion !== 'number' || !Number.isInteger(data.formatVersion)) {
+    throw new ExportFileError([{ path: '$.formatVersion', message: 'expected an integer' }]);
+  }
+  if (data.formatVersion > EXPORT_FORMAT_VERSION) {
+    throw new ExportFileError([{
+      path: '$.formatVersion',
+      message: `version ${data.formatVersion} is newer than this tool supports (${EXPORT_FORMAT_VERSION}); please update`
+    }]);
+  }
+  if (data.formatVersion < 2) {
+    throw new ExportFileError([{ path: '$.formatVersion', message: `unknown version ${data.formatVersion}` }]);
+  }
+
+  if (typeof data.generator !== 'string') {
+    issues.push({ path: '$.generator', message: 'expected a string' });
+  }
+  if (!isObject(data.source) || typeof data.source.url !== 'string') {
+    issues.push({ path: '$.source.url', message: 'expected a string' });
+  }
+  if (typeof data.createdAt !== 'string' || isNaN(Date.parse(data.createdAt))) {
+    issues.push({ path: '$.createdAt', message: 'expected an ISO timestamp' });
+  }
+  validateTables(data.tables, '$.tables', issues);
+
+  if (issues.length > 0) throw new ExportFileError(issues);
+
+  const tables: Record<string, ExportedTable> = {};
+  Object.entries(data.tables as Record<string, ExportedTable>).forEach(([name, table]) => {
+    tables[normalizeTableName(name)] = table;
+  });
+  return { ...(data as Omit<ExportFile, 'tables'>), tables };
+};
@@ -0,0 +1,92 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ImportJournal, ImportJournalTable, ImportUndoResult } from '../types/database';
+import { insertInChunks } from './batchInsert';
+import { JOURNAL_STORE, runRequest } from './localDatabase';
+import { deleteRowsByKeys } from './rowKeys';
+
+// Older journals of a project are dropped when a new import is recorded
+const MAX_JOURNALS_PER_TARGET = 5;
+
+// Inserted keys and previous rows kept for one streamed import; past this, undo is given up to keep memory bounded
+export const MAX_JOURNAL_ROWS = 100000;
+
+export const countJournalRows = (tables: ImportJournalTable[]): number =>
+  tables.reduce((count, table) => count + table.insertedKeys.length + table.previousRows.length, 0);
+
+// Newest first
+const loadJournals = async (targetUrl: string): Promise<ImportJournal[]> =>
+  (await runRequest<ImportJournal[]>(JOURNAL_STORE, 'readonly', store => store.getAll()))
+    .filter(journal => journal.targetUrl === targetUrl)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const loadLatestJournal = async (targetUrl: string): Promise<ImportJournal | null> =>
+  (await loadJournals(targetUrl))[0] || null;
+
+export const deleteImportJournal = async (id: string): Promise<void> => {
+  await runRequest(JOURNAL_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveImportJournal = async (journal: ImportJournal): Promise<void> => {
+  await runRequest(JOURNAL_STORE, 'readwrite', store => store.put(journal));
+  for (const stale of (await loadJournals(journal.targetUrl)).slice(MAX_JOURNALS_PER_TARGET)) {
+    await deleteImportJournal(stale.id);
+  }
+};
+
+/**
+ * Orders tables so that each comes before the tables it references. Tables
+ * caught in a reference cycle follow in reverse import order.
+ */
+export const getUndoOrder = (tables: ImportJournalTable[]): ImportJournalTable[] => {
+  const remaining = [...tables].reverse();
+  const ordered: ImportJournalTable[] = [];
+
+  while (remaining.length > 0) {
+    const ready = remaining.findIndex(candidate =>
+      !remaining.some(other => other !== candidate && other.references.includes(candidate.table))
+    );
+    ordered.push(...remaining.splice(Math.max(ready, 0), 1));
+  }
+
+  return ordered;
+};
+
+/**
+ * Deletes the rows an import inserted, children before parents, then writes
+ * back the rows it overwrote or deleted, parents first, leaving out the
+ * columns Postgres generates. Both steps can run again without harm, so an
+ * undo that partly failed can simply be repeated.
+ */
+export const undoImport = async (client: SupabaseClient, journal: ImportJournal): Promise<ImportUndoResult> => {
+  const result: ImportUndoResult = { rowsDeleted: 0, rowsRestored: 0, errors: [] };
+  const order = getUndoOrder(journal.tables);
+
+  for (const { table, keyColumns, insertedKeys } of order) {
+    if (insertedKeys.length === 0) continue;
+    try {
+      // Rows that reference earlier rows of the same table were usually inserted after them
+      result.rowsDeleted += await deleteRowsByKeys(client, table, keyColumns, [...insertedKeys].reverse());
+    } catch (error) {
+      result.errors.push(`Could not delete the rows inserted into ${table}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  for (const { table, keyColumns, previousRows, generatedColumns = [] } of [...order].reverse()) {
+    if (previousRows.length === 0) continue;
+    // Key columns stay, since the upsert matches rows by them
+    const omitted = generatedColumns.filter(column => !keyColumns.includes(column));
+    const rows = omitted.length > 0
+      ? previousRows.map(row => Object.fromEntries(Object.entries(row).filter(([column]) => !omitted.includes(column))))
+      : previousRows;
+    const { inserted, failures } = await insertInChunks(client, table, rows, {
+      strategy: 'upsert',
+      conflictColumns: keyColumns
+    });
+    result.rowsRestored += inserted;
+    if (failures.length > 0) {
+      result.errors.push(`${failures.length} row(s) of ${table} could not be restored: ${failures[0].error}`);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { JSONStreamError, JSONStreamParser, PathSegment, streamJSONRows } from './jsonStream';
+
+// Feeds the text to a parser in pieces of the given size and collects what it captures
+const captureAll = (text: string, chunkSize: number, shouldCapture: (path: PathSegment[]) => boolean) => {
+  const values: [PathSegment[], unknown][] = [];
+  const parser = new JSONStreamParser(path => shouldCapture(path), (path, value) => values.push([path, value]));
+  for (let i = 0; i < text.length; i += chunkSize) parser.write(text.slice(i, i + chunkSize));
+  parser.end();
+  return values;
+};
+
+const collectRows = async (text: string, name: string, format: 'export' | 'array' | 'ndjson' = 'export') => {
+  const rows: [string, unknown, number][] = [];
+  const metadata: [PathSegment[], unknown][] = [];
+  const tables: string[] = [];
+  await streamJSONRows(new File([text], name), format, 'public.items', {
+    onRow: (table, row, index) => {
+      rows.push([table, row, index]);
+    },
+    onMetadata: (path, value) => metadata.push([path, value]),
+    onTable: table => tables.push(table)
+  });
+  return { rows, metadata, tables };
+};
+
+describe('JSONStreamParser', () => {
+  const text = '{"a": [1, {"b": "x\\"}]"}, null], "c": {"d": -1.5e3, "e": true}}';
+
+  it('captures values at the selected paths however the text is split', () => {
+    const expected = [
+      [['a', 0], 1],
+      [['a', 1], { b: 'x"}]' }],
+      [['a', 2], null],
+      [['c', 'd'], -1500],
+      [['c', 'e'], true]
+    ];
+    [1, 3, 7, text.length].forEach(chunkSize => {
+      expect(captureAll(text, chunkSize, path => path.length === 2)).toEqual(expected);
+    });
+  });
+
+  it('captures a whole container when asked at its start', () => {
+    expect(captureAll(text, 5, path => path.length === 1)).toEqual([
+      [['a'], [1, { b: 'x"}]' }, null]],
+      [['c'], { d: -1500, e: true }]
+    ]);
+  });
+
+  it('reports the position of invalid input', () => {
+    expect(() => captureAll('{"a": tru}', 4, () => false)).toThrow('Invalid JSON at position 6: Unexpected token "tru"');
+    expect(() => captureAll('[1 2]', 2, () => false)).toThrow(JSONStreamError);
+    expect(() => captureAll('{"a": [1', 3, () => false)).toThrow('Unexpected end of input');
+    expect(() => captureAll('[] []', 10, () => false)).toThrow('Unexpected data after the end of the JSON value');
+  });
+});
+
+describe('streamJSONRows', () => {
+  it('streams the rows of a versioned export and hands out everything else as metadata', async () => {
+    const { rows, metadata, tables } = await collectRows(JSON.stringify({
+      formatVersion: 2,
+      tables: {
+        items: { schema: null, data: [{ id: 1 }, { id: 2 }] },
+        'sales.orders': { data: [] }
+      }
+    }), 'export.json');
+
+    expect(rows).toEqual([['public.items', { id: 1 }, 0], ['public.items', { id: 2 }, 1]]);
+    expect(tables).toEqual(['public.items', 'sales.orders']);
+    expect(metadata).toEqual([[['formatVersion'], 2], [['tables', 'items', 'schema'], null]]);
+  });
+
+  it('reads unversioned exports with tables at the top level', async () => {
+    const { rows } = await collectRows('{"items": {"data": [{"id": 1}]}}', 'export.json');
+    expect(rows).toEqual([['public.items', { id: 1 }, 0]]);
+  });
+
+  it('streams array files as the rows of the named table', async () => {
+    const { rows } = await collectRows('[{"id": 1}, {"id": 2}]', 'items.json', 'array');
+    expect(rows.map(([table, , index]) => [table, index])).toEqual([['public.items', 0], ['public.items', 1]]);
+  });
+
+  it('reads NDJSON line by line, skipping blank lines and naming the line of invalid JSON', async () => {
+    const { rows } = await collectRows('{"id": 1}\r\n\n{"id": 2}', 'items.ndjson', 'ndjson');
+    expect(rows).toEqual([['public.items', { id: 1 }, 0], ['public.items', { id: 2 }, 1]]);
+    await expect(collectRows('{"id": 1}\n{"id": ', 'items.ndjson', 'ndjson')).rejects.toThrow('Line 2 is not valid JSON');
+  });
+});
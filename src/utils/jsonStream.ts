@@ -0,0 +1,407 @@
+import { normalizeTableName } from './tableName';
+
+export type PathSegment = string | number;
+export type ValueKind = 'object' | 'array' | 'scalar';
+
+// Export files hold many tables; array and NDJSON files hold the rows of a single table
+export type JSONSourceFormat = 'export' | 'array' | 'ndjson';
+
+export class JSONStreamError extends Error {
+  // Character offset into the file
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`Invalid JSON at position ${position}: ${message}`);
+    this.name = 'JSONStreamError';
+    this.position = position;
+  }
+}
+
+interface Frame {
+  kind: 'object' | 'array';
+  path: PathSegment[];
+  index: number;
+  key: string | null;
+}
+
+type ParserState = 'value' | 'value-or-end' | 'key' | 'key-or-end' | 'colon' | 'after-value' | 'done';
+
+const LITERAL_PATTERN = /^(true|false|null|-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?)$/;
+const isWhitespace = (code: number) => code === 32 || code === 10 || code === 13 || code === 9;
+const isDelimiter = (code: number) => isWhitespace(code) || code === 44 || code === 93 || code === 125;
+
+/**
+ * Incremental JSON parser that hands out selected values as soon as they are
+ * complete. `shouldCapture` is asked at the start of every value: captured
+ * values are parsed whole and passed to `onValue`; other containers are
+ * descended into and other scalars are skipped. Only the text of the value
+ * being captured is kept, so memory stays bounded by the largest captured
+ * value rather than the file.
+ */
+export class JSONStreamParser {
+  private buffer = '';
+  private pos = 0;
+  // Offset of buffer[0] in the whole text, for error positions
+  private offset = 0;
+  private stack: Frame[] = [];
+  private state: ParserState = 'value';
+  private capture: { start: number; scanPos: number; path: PathSegment[]; depth: number; inString: boolean } | null = null;
+  private ended = false;
+
+  constructor(
+    private shouldCapture: (path: PathSegment[], kind: ValueKind) => boolean,
+    private onValue: (path: PathSegment[], value: unknown) => void
+  ) {}
+
+  write(text: string): void {
+    this.buffer += text;
+    this.run();
+    this.compact();
+  }
+
+  end(): void {
+    this.ended = true;
+    this.run();
+    if (this.state !== 'done' || this.capture) {
+      throw this.error('Unexpected end of input');
+    }
+  }
+
+  private error(message: string, at = this.pos): JSONStreamError {
+    return new JSONStreamError(message, this.offset + at);
+  }
+
+  private currentPath(): PathSegment[] {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) return [];
+    return [...frame.path, frame.kind === 'object' ? frame.key! : frame.index];
+  }
+
+  private valueDone(): void {
+    this.state = this.stack.length === 0 ? 'done' : 'after-value';
+  }
+
+  // Index just past the closing quote of the string opening at `from`, or -1 if it is not complete yet
+  private findStringEnd(from: number): number {
+    let i = from + 1;
+    while (true) {
+      const quote = this.buffer.indexOf('"', i);
+      if (quote === -1) return -1;
+      let backslashes = 0;
+      while (this.buffer.charCodeAt(quote - 1 - backslashes) === 92) backslashes++;
+      if (backslashes % 2 === 0) return quote + 1;
+      i = quote + 1;
+    }
+  }
+
+  // Index just past a number or literal, or -1 if more input could still extend it
+  private findLiteralEnd(from: number): number {
+    let i = from;
+    while (i < this.buffer.length && !isDelimiter(this.buffer.charCodeAt(i))) i++;
+    return i < this.buffer.length || this.ended ? i : -1;
+  }
+
+  private readLiteral(start: number, end: number): string {
+    const text = this.buffer.slice(start, end);
+    if (!LITERAL_PATTERN.test(text)) throw this.error(`Unexpected token "${text.slice(0, 20)}"`, start);
+    return text;
+  }
+
+  // Returns false when the captured value continues past the end of the buffer
+  private continueCapture(): boolean {
+    const capture = this.capture!;
+    const first = this.buffer.charCodeAt(capture.start);
+    let end = -1;
+
+    if (first === 34) {
+      end = this.findStringEnd(capture.start);
+    } else if (first !== 123 && first !== 91) {
+      end = this.findLiteralEnd(capture.start);
+      if (end !== -1) this.readLiteral(capture.start, end);
+    } else {
+      let i = capture.scanPos;
+      while (i < this.buffer.length) {
+        if (capture.inString) {
+          const close = this.findStringEnd(i - 1);
+          if (close === -1) {
+            i = this.buffer.length;
+            break;
+          }
+          capture.inString = false;
+          i = close;
+          continue;
+        }
+        const code = this.buffer.charCodeAt(i++);
+        if (code === 34) {
+          capture.inString = true;
+        } else if (code === 123 || code === 91) {
+          capture.depth++;
+        } else if (code === 125 || code === 93) {
+          capture.depth--;
+          if (capture.depth === 0) {
+            end = i;
+            break;
+          }
+        }
+      }
+      capture.scanPos = i;
+    }
+
+    if (end === -1) return false;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(this.buffer.slice(capture.start, end));
+    } catch (err) {
+      throw this.error(err instanceof Error ? err.message : 'parse error', capture.start);
+    }
+    this.capture = null;
+    this.pos = end;
+    this.valueDone();
+    this.onValue(capture.path, value);
+    return true;
+  }
+
+  private run(): void {
+    while (true) {
+      if (this.capture) {
+        if (!this.continueCapture()) return;
+        continue;
+      }
+
+      while (this.pos < this.buffer.length && isWhitespace(this.buffer.charCodeAt(this.pos))) this.pos++;
+      if (this.pos >= this.buffer.length) return;
+
+      const char = this.buffer[this.pos];
+      const frame = this.stack[this.stack.length - 1];
+
+      switch (this.state) {
+        case 'value-or-end':
+          if (char === ']') {
+            this.stack.pop();
+            this.pos++;
+            this.valueDone();
+            break;
+          }
+          this.state = 'value';
+          break;
+
+        case 'value': {
+          const path = this.currentPath();
+          const kind: ValueKind = char === '{' ? 'object' : char === '[' ? 'array' : 'scalar';
+          if (this.shouldCapture(path, kind)) {
+            this.capture = { start: this.pos, scanPos: this.pos + 1, path, depth: 1, inString: false };
+          } else if (kind !== 'scalar') {
+            this.stack.push({ kind, path, index: 0, key: null });
+            this.state = kind === 'object' ? 'key-or-end' : 'value-or-end';
+            this.pos++;
+          } else {
+            const end = char === '"' ? this.findStringEnd(this.pos) : this.findLiteralEnd(this.pos);
+            if (end === -1) return;
+            if (char !== '"') this.readLiteral(this.pos, end);
+            this.pos = end;
+            this.valueDone();
+          }
+          break;
+        }
+
+        case 'key-or-end':
+        case 'key': {
+          if (char === '}' && this.state === 'key-or-end') {
+            this.stack.pop();
+            this.pos++;
+            this.valueDone();
+            break;
+          }
+          if (char !== '"') throw this.error(`Expected a property name, got "${char}"`);
+          const end = this.findStringEnd(this.pos);
+          if (end === -1) return;
+          frame.key = JSON.parse(this.buffer.slice(this.pos, end));
+          this.pos = end;
+          this.state = 'colon';
+          break;
+        }
+
+        case 'colon':
+          if (char !== ':') throw this.error(`Expected ":", got "${char}"`);
+          this.pos++;
+          this.state = 'value';
+          break;
+
+        case 'after-value': {
+          const close = frame.kind === 'object' ? '}' : ']';
+          if (char === ',') {
+            this.pos++;
+            if (frame.kind === 'array') {
+              frame.index++;
+              this.state = 'value';
+            } else {
+              this.state = 'key';
+            }
+          } else if (char === close) {
+            this.stack.pop();
+            this.pos++;
+            this.valueDone();
+          } else {
+            throw this.error(`Expected "," or "${close}", got "${char}"`);
+          }
+          break;
+        }
+
+        case 'done':
+          throw this.error('Unexpected data after the end of the JSON value');
+      }
+    }
+  }
+
+  // Drops text that has been consumed, keeping the value being captured
+  private compact(): void {
+    const keepFrom = this.capture ? this.capture.start : this.pos;
+    if (keepFrom === 0) return;
+
+    this.buffer = this.buffer.slice(keepFrom);
+    this.offset += keepFrom;
+    this.pos -= keepFrom;
+    if (this.capture) {
+      this.capture.start -= keepFrom;
+      this.capture.scanPos -= keepFrom;
+    }
+  }
+}
+
+// Reads a file as text in chunks without loading it whole
+export const readFileText = async (
+  file: Blob,
+  onText: (text: string) => void | Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      await onText(decoder.decode(value, { stream: true }));
+    }
+    await onText(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+export const detectJSONFormat = async (file: File): Promise<JSONSourceFormat> => {
+  if (/\.(ndjson|jsonl)$/i.test(file.name)) return 'ndjson';
+  const start = (await file.slice(0, 1024).text()).replace(/^\uFEFF/, '').trimStart();
+  return start.startsWith('[') ? 'array' : 'export';
+};
+
+export interface JSONRowHandlers {
+  onRow: (tableName: string, row: unknown, index: number) => void | Promise<void>;
+  // Values outside the rows: export metadata and per-table fields such as "schema"
+  onMetadata?: (path: PathSegment[], value: unknown) => void;
+  // The "data" array of an export file table begins, so empty tables are seen too
+  onTable?: (tableName: string) => void;
+}
+
+/**
+ * Streams the rows of a JSON source in file order. In export files the rows
+ * are the elements of each table's "data" array; unversioned (v1) exports
+ * keep their tables at the top level, so "formatVersion" has to come before
+ * "tables" for a file to be read as versioned, which is how exports are
+ * written. `tableName` names the single table of array and NDJSON files.
+ */
+export const streamJSONRows = async (
+  file: File,
+  format: JSONSourceFormat,
+  tableName: string,
+  handlers: JSONRowHandlers,
+  signal?: AbortSignal
+): Promise<void> => {
+  // Rows carry their table and index; anything else is metadata
+  const queue: { path: PathSegment[]; value: unknown; row: { table: string; index: number } | null }[] = [];
+  let versioned = false;
+
+  // Splits a path into the table it belongs to and the rest, for export files
+  const tableOf = (path: PathSegment[]): { name: string; rest: PathSegment[] } | null => {
+    if (format !== 'export') return path.length > 0 ? { name: tableName, rest: ['data', ...path] } : null;
+    if (versioned) {
+      return path[0] === 'tables' && path.length >= 2 ? { name: String(path[1]), rest: path.slice(2) } : null;
+    }
+    return path.length >= 1 ? { name: String(path[0]), rest: path.slice(1) } : null;
+  };
+
+  // Export files name tables like parseExportFile does
+  const getTableName = (name: string) => (format === 'export' ? normalizeTableName(name) : name);
+
+  const deliver = async () => {
+    for (const { path, value, row } of queue.splice(0)) {
+      if (row) {
+        await handlers.onRow(row.table, value, row.index);
+      } else {
+        handlers.onMetadata?.(path, value);
+      }
+    }
+  };
+
+  if (format === 'ndjson') {
+    let pending = '';
+    let index = 0;
+    let lineNumber = 0;
+    const parseLine = async (line: string) => {
+      lineNumber++;
+      if (!line.trim()) return;
+      let row: unknown;
+      try {
+        row = JSON.parse(line);
+      } catch (err) {
+        throw new Error(`Line ${lineNumber} is not valid JSON: ${err instanceof Error ? err.message : 'parse error'}`);
+      }
+      await handlers.onRow(tableName, row, index++);
+    };
+
+    await readFileText(file, async text => {
+      pending += text;
+      const lines = pending.split('\n');
+      pending = lines.pop()!;
+      for (const line of lines) await parseLine(line);
+    }, signal);
+    await parseLine(pending);
+    return;
+  }
+
+  const parser = new JSONStreamParser(
+    (path, kind) => {
+      if (path.length === 0) return kind !== (format === 'export' ? 'object' : 'array');
+      if (format === 'export' && versioned && path.length === 1 && path[0] === 'tables') return kind !== 'object';
+
+      const table = tableOf(path);
+      if (!table) return true;
+      if (table.rest.length === 0 && kind === 'object') return false;
+      if (table.rest.length === 1 && table.rest[0] === 'data' && kind === 'array') {
+        handlers.onTable?.(getTableName(table.name));
+        return false;
+      }
+      return true;
+    },
+    (path, value) => {
+      const table = tableOf(path);
+      const isRow = !!table && table.rest[0] === 'data' && table.rest.length === 2;
+      queue.push({
+        path,
+        value,
+        row: isRow ? { table: getTableName(table!.name), index: table!.rest[1] as number } : null
+      });
+      // Decided while parsing: the paths that follow depend on it
+      if (format === 'export' && path.length === 1 && path[0] === 'formatVersion') versioned = true;
+    }
+  );
+
+  await readFileText(file, async text => {
+    parser.write(text);
+    await deliver();
+  }, signal);
+  parser.end();
+  await deliver();
+};
@@ -0,0 +1,44 @@
+const DB_NAME = 'supabase-db-manager';
+const DB_VERSION = 2;
+
+// Object stores of the browser database; every record is keyed by its `id`
+export const CHECKPOINT_STORE = 'import-checkpoints';
+export const JOURNAL_STORE = 'import-journals';
+const STORES = [CHECKPOINT_STORE, JOURNAL_STORE];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES
+          .filter(store => !request.result.objectStoreNames.contains(store))
+          .forEach(store => request.result.createObjectStore(store, { keyPath: 'id' }));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again, e.g. after the user allows storage
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,102 @@
+import { ColumnFill, DefaultExpression, ExportFile, ImportMapping, SavedMapping, TableMapping } from '../types/database';
+import { readStoredJSON, writeStoredJSON } from './storage';
+
+const SAVED_MAPPINGS_KEY = 'import-mappings';
+
+export const DEFAULT_EXPRESSIONS: DefaultExpression[] = ['now()', 'current_date', 'gen_random_uuid()', 'null'];
+
+export const evaluateDefaultExpression = (expression: DefaultExpression): string | null => {
+  switch (expression) {
+    case 'now()':
+      return new Date().toISOString();
+    case 'current_date':
+      return new Date().toISOString().slice(0, 10);
+    case 'gen_random_uuid()':
+      return crypto.randomUUID();
+    case 'null':
+      return null;
+  }
+};
+
+const evaluateFill = (fill: ColumnFill): unknown =>
+  fill.kind === 'constant' ? fill.value : evaluateDefaultExpression(fill.expression);
+
+// Every file table goes to the table of the same name with its columns unchanged
+export const createIdentityMapping = (file: ExportFile): ImportMapping =>
+  Object.keys(file.tables).reduce((mapping, tableName) => {
+    mapping[tableName] = { target: tableName, columns: {}, fills: {} };
+    return mapping;
+  }, {} as ImportMapping);
+
+export const mapRow = (row: Record<string, unknown>, tableMapping: TableMapping): Record<string, unknown> => {
+  const mapped: Record<string, unknown> = {};
+
+  Object.entries(row).forEach(([column, value]) => {
+    const target = column in tableMapping.columns ? tableMapping.columns[column] : column;
+    if (target) mapped[target] = value;
+  });
+
+  Object.entries(tableMapping.fills).forEach(([column, fill]) => {
+    mapped[column] = evaluateFill(fill);
+  });
+
+  return mapped;
+};
+
+/**
+ * Applies a mapping to an import file. The result is keyed by target table;
+ * source tables mapped to the same target are concatenated, and skipped
+ * tables are left out. Tables without an entry in the mapping pass through.
+ */
+export const applyMapping = (file: ExportFile, mapping: ImportMapping): ExportFile => {
+  const tables: ExportFile['tables'] = {};
+
+  Object.entries(file.tables).forEach(([tableName, tableData]) => {
+    const tableMapping = mapping[tableName] || { target: tableName, columns: {}, fills: {} };
+    if (!tableMapping.target) return;
+
+    const rows = (tableData.data || []).map(row => mapRow(row, tableMapping));
+    const existing = tables[tableMapping.target];
+    tables[tableMapping.target] = existing
+      ? { data: [...(existing.data || []), ...rows] }
+      : { data: rows };
+  });
+
+  return { ...file, tables };
+};
+
+// Target tables a mapping writes to, in file order and without duplicates
+export const getMappedTables = (mapping: ImportMapping): string[] =>
+  Array.from(new Set(
+    Object.values(mapping)
+      .map(tableMapping => tableMapping.target)
+      .filter((target): target is string => !!target)
+  ));
+
+export const loadSavedMappings = (): SavedMapping[] =>
+  readStoredJSON<SavedMapping[]>(SAVED_MAPPINGS_KEY, []);
+
+// Saving under an existing name replaces that mapping
+export const saveMapping = (name: string, mapping: ImportMapping): SavedMapping[] => {
+  const saved = loadSavedMappings().filter(entry => entry.name !== name);
+  saved.push({ name, savedAt: new Date().toISOString(), mapping });
+  saved.sort((a, b) => a.name.localeCompare(b.name));
+  writeStoredJSON(SAVED_MAPPINGS_KEY, saved);
+  return saved;
+};
+
+export const deleteSavedMapping = (name: string): SavedMapping[] => {
+  const saved = loadSavedMappings().filter(entry => entry.name !== name);
+  writeStoredJSON(SAVED_MAPPINGS_KEY, saved);
+  return saved;
+};
+
+/**
+ * Applies a saved mapping to the tables of the current file; tables the
+ * saved mapping does not mention keep their current mapping.
+ */
+export const mergeSavedMapping = (current: ImportMapping, saved: ImportMapping): ImportMapping =>
+  Object.keys(current).reduce((mapping, tableName) => {
+    mapping[tableName] = saved[tableName] || current[tableName];
+    return mapping;
+  }, {} as ImportMapping);
@@ -0,0 +1,141 @@
+import {
+  ColumnInfo,
+  ForeignKeyReference,
+  FunctionInfo,
+  FunctionParameter,
+  OpenAPIOperation,
+  OpenAPIProperty,
+  OpenAPISpec,
+  TableForeignKey
+} from '../types/database';
+
+// PostgREST appends these markers to column descriptions, e.g.
+// "Note:\nThis is a Foreign Key to `users.id`.<fk table='users' column='id'/>"
+const PRIMARY_KEY_MARKER = /<pk\s*\/>/;
+const FOREIGN_KEY_MARKER = /<fk\s+table=['"]([^'"]+)['"]\s+column=['"]([^'"]+)['"]\s*\/>/;
+
+export const isPrimaryKeyDescription = (description?: string): boolean =>
+  !!description && PRIMARY_KEY_MARKER.test(description);
+
+export const parseForeignKeyDescription = (description?: string): ForeignKeyReference | undefined => {
+  const match = description?.match(FOREIGN_KEY_MARKER);
+  return match ? { table: match[1], column: match[2] } : undefined;
+};
+
+// Fallback mapping when PostgREST does not report a Postgres format for a column
+const jsonTypeToDataType = (property: OpenAPIProperty): string => {
+  switch (property.type) {
+    case 'integer':
+      return 'integer';
+    case 'number':
+      return 'numeric';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `${property.items?.format || jsonTypeToDataType(property.items || {})}[]`;
+    case 'object':
+      return 'jsonb';
+    default:
+      return 'text';
+  }
+};
+
+const formatDefault = (value: OpenAPIProperty['default']): string | null => {
+  if (value === undefined || value === null) return null;
+  return String(value);
+};
+
+/**
+ * Builds column metadata for a table or view from the `definitions` section
+ * of the PostgREST OpenAPI document. Returns null when the document does not
+ * describe the table, so callers can fall back to sampling rows.
+ */
+export const getColumnsFromSpec = (spec: OpenAPISpec | null, tableName: string): ColumnInfo[] | null => {
+  const definition = spec?.definitions?.[tableName];
+  if (!definition || !definition.properties) return null;
+
+  const required = new Set(definition.required || []);
+
+  return Object.entries(definition.properties).map(([name, property], index) => {
+    const isRequired = required.has(name);
+    return {
+      column_name: name,
+      data_type: property.format || jsonTypeToDataType(property),
+      // Columns left out of `required` may still be NOT NULL with a default
+      is_nullable: isRequired ? 'NO' : null,
+      column_default: formatDefault(property.default),
+      ordinal_position: index + 1,
+      character_maximum_length: property.maxLength,
+      json_type: property.type,
+      format: property.format,
+      is_required: isRequired,
+      enum_values: property.enum,
+      description: property.description,
+      is_primary_key: isPrimaryKeyDescription(property.description),
+      foreign_key: parseForeignKeyDescription(property.description)
+    };
+  });
+};
+
+export const getPrimaryKeyColumns = (columns: ColumnInfo[]): string[] =>
+  columns.filter(col => col.is_primary_key).map(col => col.column_name);
+
+export const getForeignKeys = (columns: ColumnInfo[]): TableForeignKey[] =>
+  columns.flatMap(col => (col.foreign_key ? [{ source_column: col.column_name, ...col.foreign_key }] : []));
+
+/**
+ * PostgREST only documents POST/PATCH/DELETE for relations it can write to,
+ * so a path with nothing but GET is a view (or otherwise read-only relation).
+ * Auto-updatable views are indistinguishable from tables and stay editable.
+ */
+export const getRelationType = (pathItem: Record<string, OpenAPIOperation>): string => {
+  const writable = ['post', 'patch', 'delete'].some(method => method in pathItem);
+  return writable ? 'BASE TABLE' : 'VIEW';
+};
+
+const getFunctionParameters = (pathItem: Record<string, OpenAPIOperation>): FunctionParameter[] => {
+  // POST describes arguments as a JSON body schema
+  const body = pathItem.post?.parameters?.find(param => param.in === 'body' && param.schema);
+  if (body?.schema) {
+    const required = new Set(body.schema.required || []);
+    return Object.entries(body.schema.properties || {}).map(([name, property]) => ({
+      name,
+      type: property.type,
+      format: property.format,
+      required: required.has(name)
+    }));
+  }
+
+  // GET describes arguments as query parameters; shared parameters are $refs and are skipped
+  return (pathItem.get?.parameters || [])
+    .filter(param => param.in === 'query' && param.name)
+    .map(param => ({
+      name: param.name!,
+      type: param.type,
+      format: param.format,
+      required: !!param.required
+    }));
+};
+
+export const getFunctionsFromSpec = (spec: OpenAPISpec | null, schemaName: string): FunctionInfo[] => {
+  const functions: FunctionInfo[] = [];
+
+  Object.entries(spec?.paths || {}).forEach(([path, pathItem]) => {
+    const match = path.match(/^\/rpc\/([a-zA-Z_][a-zA-Z0-9_]*)$/);
+    if (!match) return;
+
+    const methods: FunctionInfo['methods'] = [];
+    if (pathItem.get) methods.push('GET');
+    if (pathItem.post) methods.push('POST');
+
+    functions.push({
+      function_name: match[1],
+      function_schema: schemaName,
+      description: pathItem.post?.summary || pathItem.get?.summary,
+      parameters: getFunctionParameters(pathItem),
+      methods
+    });
+  });
+
+  return functions;
+};
@@ -0,0 +1,106 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RowKey } from '../types/database';
+import { fromTable } from './tableName';
+
+// Keys are sent in the query string, so lookups and deletes go out in modest batches
+const KEY_BATCH_SIZE = 100;
+
+// Stable string form of a row's key, for set membership checks
+export const getKeyString = (row: Record<string, unknown>, keyColumns: string[]): string =>
+  JSON.stringify(keyColumns.map(column => row[column] ?? null));
+
+export const pickKey = (row: Record<string, unknown>, keyColumns: string[]): RowKey =>
+  keyColumns.reduce((key, column) => {
+    key[column] = row[column];
+    return key;
+  }, {} as RowKey);
+
+// PostgREST filter value, double-quoted so commas and parentheses stay literal
+const quoteFilterValue = (value: unknown): string =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// The filter methods of PostgREST builders add to the request in place
+interface KeyFilterable {
+  in: (column: string, values: unknown[]) => unknown;
+  or: (filters: string) => unknown;
+}
+
+// Single-column keys use an `in` filter; composite keys are combined as or(and(...), ...)
+const matchKeys = (query: KeyFilterable, keyColumns: string[], keys: RowKey[]): void => {
+  if (keyColumns.length === 1) {
+    query.in(keyColumns[0], keys.map(key => key[keyColumns[0]]));
+  } else {
+    query.or(
+      keys
+        .map(key => `and(${keyColumns.map(column => `${column}.eq.${quoteFilterValue(key[column])}`).join(',')})`)
+        .join(',')
+    );
+  }
+};
+
+// Deletes the rows identified by `keys` and returns how many were found
+export const deleteRowsByKeys = async (
+  client: SupabaseClient,
+  tableName: string,
+  keyColumns: string[],
+  keys: RowKey[]
+): Promise<number> => {
+  let deleted = 0;
+
+  for (let start = 0; start < keys.length; start += KEY_BATCH_SIZE) {
+    const batch = keys.slice(start, start + KEY_BATCH_SIZE);
+    const query = fromTable(client, tableName).delete();
+    matchKeys(query, keyColumns, batch);
+    const { data, error } = await query.select(keyColumns.join(','));
+
+    if (error) throw new Error(error.message);
+    deleted += data?.length ?? 0;
+  }
+
+  return deleted;
+};
+
+// Reads the current version of the rows identified by `keys`; keys with no matching row are left out
+export const fetchRowsByKeys = async (
+  client: SupabaseClient,
+  tableName: string,
+  keyColumns: string[],
+  keys: RowKey[]
+): Promise<Record<string, unknown>[]> => {
+  let rows: Record<string, unknown>[] = [];
+
+  for (let start = 0; start < keys.length; start += KEY_BATCH_SIZE) {
+    const batch = keys.slice(start, start + KEY_BATCH_SIZE);
+    const query = fromTable(client, tableName).select('*');
+    matchKeys(query, keyColumns, batch);
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+    rows = rows.concat(data ?? []);
+  }
+
+  return rows;
+};
+
+// Sets the same values on every row identified by `keys` and returns how many rows were updated
+export const updateRowsByKeys = async (
+  client: SupabaseClient,
+  tableName: string,
+  keyColumns: string[],
+  keys: RowKey[],
+  values: Record<string, unknown>
+): Promise<number> => {
+  let updated = 0;
+
+  for (let start = 0; start < keys.length; start += KEY_BATCH_SIZE) {
+    const batch = keys.slice(start, start + KEY_BATCH_SIZE);
+    const query = fromTable(client, tableName).update(values);
+    matchKeys(query, keyColumns, batch);
+    const { data, error } = await query.select(keyColumns.join(','));
+
+    if (error) throw new Error(error.message);
+    updated += data?.length ?? 0;
+  }
+
+  return updated;
+};
@@ -0,0 +1,54 @@
+import { SQLHistoryEntry } from '../types/database';
+import { parseSQLScript } from './sqlParser';
+import { readStoredJSON, writeStoredJSON } from './storage';
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export interface StatementRange {
+  sql: string;
+  // Offsets into the editor text, end exclusive
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds the statement the cursor is in. A cursor in the gap after a
+ * statement (after its semicolon, on the following blank line) still belongs
+ * to that statement, so a query can be run right after typing it.
+ */
+export const findStatementAt = (sql: string, offset: number): StatementRange | null => {
+  const ranges = parseSQLScript(sql).map(statement => {
+    const start = statement.tokens[0].start;
+    const end = statement.tokens[statement.tokens.length - 1].end;
+    return { sql: sql.slice(start, end), start, end };
+  });
+  if (ranges.length === 0) return null;
+
+  const preceding = ranges.filter(range => range.start <= offset);
+  return preceding.length > 0 ? preceding[preceding.length - 1] : ranges[0];
+};
+
+// 1-based line and column of an offset, for reporting error positions
+export const getLineAndColumn = (text: string, offset: number): { line: number; column: number } => {
+  const before = text.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+const historyKey = (projectUrl: string) => `sql-history:${projectUrl}`;
+
+export const loadQueryHistory = (projectUrl: string): SQLHistoryEntry[] =>
+  readStoredJSON<SQLHistoryEntry[]>(historyKey(projectUrl), []);
+
+// Newest first; running a query again moves it to the top instead of adding a copy
+export const addToQueryHistory = (projectUrl: string, entry: SQLHistoryEntry): SQLHistoryEntry[] => {
+  const history = [entry, ...loadQueryHistory(projectUrl).filter(item => item.query !== entry.query)]
+    .slice(0, MAX_HISTORY_ENTRIES);
+  writeStoredJSON(historyKey(projectUrl), history);
+  return history;
+};
+
+export const clearQueryHistory = (projectUrl: string): SQLHistoryEntry[] => {
+  writeStoredJSON(historyKey(projectUrl), []);
+  return [];
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnInfo, TableCatalogInfo } from '../types/database';
+import { formatSQLValue, generateCreateTable } from './sqlExport';
+import { parseInsertStatement, parseJSONLiterals, toRowObjects } from './sqlInsert';
+import { parseSQLScript } from './sqlParser';
+import { quoteIdentifier, quoteTableName } from './tableName';
+
+const column = (column_name: string, data_type: string): ColumnInfo => ({
+  column_name,
+  data_type,
+  is_nullable: 'YES',
+  column_default: null,
+  ordinal_position: 1,
+  json_type: 'string',
+  format: data_type
+});
+
+// An INSERT as SQL exports write it, read back the way SQL imports read it
+const roundTrip = (rows: Record<string, unknown>[], columns: ColumnInfo[], typed = true) => {
+  const names = columns.map(col => col.column_name);
+  const values = rows.map(row =>
+    `(${columns.map(col => formatSQLValue(row[col.column_name], typed ? col.data_type : undefined)).join(', ')})`
+  );
+  const sql = `INSERT INTO ${quoteTableName('public.items')} (${names.map(quoteIdentifier).join(', ')}) VALUES\n  ${values.join(',\n  ')};\n`;
+
+  const insert = parseInsertStatement(parseSQLScript(sql)[0]);
+  return toRowObjects(parseJSONLiterals(insert, names, columns), names);
+};
+
+describe('formatSQLValue', () => {
+  it('writes NULL, booleans and numbers as bare literals', () => {
+    expect(formatSQLValue(null, 'text')).toBe('NULL');
+    expect(formatSQLValue(undefined)).toBe('NULL');
+    expect(formatSQLValue(true, 'boolean')).toBe('TRUE');
+    expect(formatSQLValue(-1.5, 'numeric')).toBe('-1.5');
+    expect(formatSQLValue('9007199254740993', 'bigint')).toBe('9007199254740993');
+  });
+
+  it('quotes NaN and Infinity, which are not valid bare numbers', () => {
+    expect(formatSQLValue('NaN', 'double precision')).toBe('\'NaN\'');
+    expect(formatSQLValue(Infinity, 'real')).toBe('\'Infinity\'');
+  });
+
+  it('doubles quotes in text and leaves backslashes alone', () => {
+    expect(formatSQLValue('it\'s a \\path', 'text')).toBe('\'it\'\'s a \\path\'');
+  });
+
+  it('casts JSON, bytea and temporal literals to their column type', () => {
+    expect(formatSQLValue({ a: 'b' }, 'jsonb')).toBe('\'{"a":"b"}\'::jsonb');
+    expect(formatSQLValue('123', 'json')).toBe('\'"123"\'::json');
+    expect(formatSQLValue('\\x0102', 'bytea')).toBe('\'\\x0102\'::bytea');
+    expect(formatSQLValue('2024-01-02', 'date')).toBe('\'2024-01-02\'::date');
+  });
+
+  it('writes arrays as Postgres array literals with every element quoted', () => {
+    expect(formatSQLValue(['a', 'say "hi"', null, ['x']], 'text[]')).toBe('\'{"a","say \\"hi\\"",NULL,{"x"}}\'');
+  });
+
+  it('follows the JavaScript value when the column type is unknown', () => {
+    expect(formatSQLValue(42)).toBe('42');
+    expect(formatSQLValue([1, 2])).toBe('\'[1,2]\'');
+    expect(formatSQLValue('42')).toBe('\'42\'');
+  });
+});
+
+describe('SQL export and import', () => {
+  const columns = [
+    column('id', 'bigint'),
+    column('name', 'text'),
+    column('active', 'boolean'),
+    column('price', 'numeric'),
+    column('doc', 'jsonb'),
+    column('label', 'json'),
+    column('tags', 'text[]'),
+    column('created_at', 'timestamp with time zone'),
+    column('data', 'bytea')
+  ];
+
+  it('reads back the values PostgREST returned', () => {
+    const rows = [
+      {
+        id: '9007199254740993',
+        name: 'it\'s "quoted"\nwith a \\ backslash',
+        active: true,
+        price: 12.5,
+        doc: { nested: [1, 'two', null] },
+        label: '123',
+        tags: ['a', 'b c'],
+        created_at: '2024-01-02T03:04:05+00:00',
+        data: '\\x0102'
+      },
+      { id: 2, name: '', active: false, price: null, doc: 'true', label: null, tags: [], created_at: null, data: null }
+    ];
+
+    expect(roundTrip(rows, columns)).toEqual([
+      // Arrays come back as array literal text, which Postgres parses on insert
+      { ...rows[0], tags: '{"a","b c"}' },
+      { ...rows[1], tags: '{}' }
+    ]);
+  });
+
+  it('parses JSON written without a cast when the target column is json', () => {
+    const rows = [{ id: 1, name: 'x', active: true, price: 1, doc: { a: 1 }, label: [1, 2], tags: null, created_at: null, data: null }];
+    expect(roundTrip(rows, columns, false)[0]).toMatchObject({ doc: { a: 1 }, label: [1, 2] });
+  });
+});
+
+describe('generateCreateTable', () => {
+  const options = { ifNotExists: false, tableOrder: ['public.users', 'public.orders', 'public.order_lines'] };
+
+  it('groups foreign key columns by the referenced table unless they point at the same column', () => {
+    const columns = [
+      { ...column('order_id', 'integer'), foreign_key: { table: 'orders', column: 'id' } },
+      { ...column('order_version', 'integer'), foreign_key: { table: 'orders', column: 'version' } },
+      { ...column('created_by', 'uuid'), foreign_key: { table: 'users', column: 'id' } },
+      { ...column('updated_by', 'uuid'), foreign_key: { table: 'users', column: 'id' } }
+    ];
+    const sql = generateCreateTable('public.order_lines', columns, options);
+
+    expect(sql).toContain('CONSTRAINT "order_lines_order_id_order_version_fkey" FOREIGN KEY ("order_id", "order_version") REFERENCES "public"."orders" ("id", "version")');
+    expect(sql).toContain('CONSTRAINT "order_lines_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "public"."users" ("id")');
+    expect(sql).toContain('CONSTRAINT "order_lines_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "public"."users" ("id")');
+  });
+
+  it('takes NOT NULL and foreign keys from the catalog when it is available', () => {
+    const catalog: TableCatalogInfo = {
+      constraints: [],
+      foreignKeys: [{ name: 'orders_user_fkey', definition: 'FOREIGN KEY (user_id) REFERENCES auth.users(id)', references: 'auth.users' }],
+      notNullColumns: ['user_id'],
+      identityColumns: {},
+      generatedColumns: []
+    };
+    const columns = [
+      { ...column('user_id', 'uuid'), foreign_key: { table: 'users', column: 'id' } },
+      { ...column('note', 'text'), is_nullable: 'NO' as const }
+    ];
+    const sql = generateCreateTable('public.orders', columns, options, catalog);
+
+    expect(sql).toContain('"user_id" uuid NOT NULL');
+    expect(sql).toContain('"note" text\n');
+    expect(sql).toContain('-- "orders_user_fkey" references "auth"."users", which is not part of this export');
+    expect(sql).not.toContain('REFERENCES "public"."users"');
+  });
+});
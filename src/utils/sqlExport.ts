@@ -0,0 +1,290 @@
+import { ColumnInfo, SQLResult, TableCatalogInfo } from '../types/database';
+import { parseTableName, qualifyTableName, quoteIdentifier, quoteTableName } from './tableName';
+
+export interface DDLOptions {
+  // CREATE ... IF NOT EXISTS keeps existing tables and types; otherwise they are dropped first
+  ifNotExists: boolean;
+  // Tables of the file in the order they are created
+  tableOrder: string[];
+}
+
+const SERIAL_TYPES: Record<string, string> = { smallint: 'smallserial', integer: 'serial', bigint: 'bigserial' };
+// Only these types take the length or precision PostgREST reports; integer(32) is not valid DDL
+const LENGTH_TYPES = ['character varying', 'varchar', 'character', 'char', 'bit', 'bit varying'];
+const PRECISION_TYPES = ['numeric', 'decimal'];
+const DEFAULT_KEYWORDS = /^(current_timestamp|current_date|current_time|localtimestamp|localtime|current_user|session_user|null|true|false)$/i;
+
+export const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`;
+
+// Splits "text[]" into its element type and array suffix
+const splitArrayType = (dataType: string): { base: string; arrays: string } => {
+  const [, base, arrays] = dataType.match(/^(.*?)((?:\[\])*)$/)!;
+  return { base, arrays };
+};
+
+const NUMERIC_TYPES = [
+  'smallint', 'integer', 'bigint', 'int2', 'int4', 'int8', 'numeric', 'decimal', 'real', 'double precision', 'float4', 'float8'
+];
+const NUMBER_LITERAL = /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i;
+// Date, time and interval literals are cast, so the file does not depend on the target column's type
+const TEMPORAL_TYPE = /^(timestamp|date|time|interval)\b/;
+
+const formatNumber = (value: number | string): string => {
+  const text = String(value);
+  // NaN and Infinity (which PostgREST sends as strings) are only valid quoted
+  return NUMBER_LITERAL.test(text) ? text : quoteLiteral(text);
+};
+
+// Postgres array input syntax; every element is quoted so the literal fits any element type
+const toArrayLiteral = (values: unknown[]): string => `{${values.map(value => {
+  if (value === null || value === undefined) return 'NULL';
+  if (Array.isArray(value)) return toArrayLiteral(value);
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `"${text.replace(/[\\"]/g, '\\$&')}"`;
+}).join(',')}}`;
+
+/**
+ * Writes a value as an SQL literal for a column of `dataType`. Without a
+ * type (the table's columns could not be read) the literal follows the
+ * JavaScript value, with objects and arrays written as JSON text.
+ */
+export const formatSQLValue = (value: unknown, dataType?: string): string => {
+  if (value === null || value === undefined) return 'NULL';
+  const { base, arrays } = splitArrayType(dataType || '');
+
+  if (arrays && Array.isArray(value)) return quoteLiteral(toArrayLiteral(value));
+  if (base === 'json' || base === 'jsonb') return `${quoteLiteral(JSON.stringify(value))}::${base}`;
+  if (base === 'bytea') return `${quoteLiteral(String(value))}::bytea`;
+  if (NUMERIC_TYPES.includes(base) && (typeof value === 'number' || typeof value === 'string')) return formatNumber(value);
+  if (TEMPORAL_TYPE.test(base) && typeof value === 'string') return `${quoteLiteral(value)}::${base}`;
+
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'object') return quoteLiteral(JSON.stringify(value));
+  return quoteLiteral(String(value));
+};
+
+const isEnumColumn = (col: ColumnInfo): boolean =>
+  !!col.enum_values && col.enum_values.length > 0 && splitArrayType(col.data_type).base !== 'text';
+
+// PostgREST names enum types without the schema when they are in the table's schema
+const quoteEnumType = (typeName: string, tableName: string): string => {
+  if (typeName.includes('"')) return typeName;
+  return typeName.includes('.')
+    ? quoteTableName(typeName)
+    : quoteTableName(qualifyTableName(parseTableName(tableName).schema, typeName));
+};
+
+const formatColumnType = (col: ColumnInfo, tableName: string): string => {
+  const { base, arrays } = splitArrayType(col.data_type);
+  if (isEnumColumn(col)) return quoteEnumType(base, tableName) + arrays;
+  if (base.includes('(')) return col.data_type;
+
+  if (col.character_maximum_length && LENGTH_TYPES.includes(base)) {
+    return `${base}(${col.character_maximum_length})${arrays}`;
+  }
+  if (col.numeric_precision && PRECISION_TYPES.includes(base)) {
+    return `${base}(${col.numeric_precision}${col.numeric_scale ? `,${col.numeric_scale}` : ''})${arrays}`;
+  }
+  return col.data_type;
+};
+
+/**
+ * PostgREST strips the quotes and cast from literal defaults ('active'::text
+ * is reported as active), so bare words are quoted again. Expressions,
+ * numbers and keywords are kept as they are.
+ */
+const formatColumnDefault = (value: string): string => {
+  if (
+    value.startsWith("'") ||
+    value.includes('::') ||
+    DEFAULT_KEYWORDS.test(value) ||
+    /^-?\d+(\.\d+)?$/.test(value) ||
+    /^[\w.]+\(.*\)$/s.test(value)
+  ) {
+    return value;
+  }
+  return quoteLiteral(value);
+};
+
+const getColumnDefinition = (col: ColumnInfo, tableName: string, catalog?: TableCatalogInfo): string => {
+  const identity = catalog?.identityColumns[col.column_name];
+  const fromSequence = !!col.column_default && /^nextval\(/i.test(col.column_default);
+  // The sequence behind a nextval() default is not part of the export; serial creates a new one
+  const serialType = !identity && fromSequence ? SERIAL_TYPES[col.data_type] : undefined;
+
+  let definition = `${quoteIdentifier(col.column_name)} ${serialType || formatColumnType(col, tableName)}`;
+  if (identity) definition += ` GENERATED ${identity} AS IDENTITY`;
+  if (catalog ? catalog.notNullColumns.includes(col.column_name) : col.is_nullable === 'NO') definition += ' NOT NULL';
+  if (col.column_default && !identity && !fromSequence) definition += ` DEFAULT ${formatColumnDefault(col.column_default)}`;
+  return definition;
+};
+
+// Serial and identity columns, whose sequences have to be moved past explicitly inserted values
+export const getSequenceColumns = (columns: ColumnInfo[], catalog?: TableCatalogInfo): string[] =>
+  columns
+    .filter(col => catalog?.identityColumns[col.column_name] || (col.column_default && /^nextval\(/i.test(col.column_default)))
+    .map(col => col.column_name);
+
+/**
+ * The foreign keys of a table. The catalog has each constraint as declared.
+ * Without it they are rebuilt from the PostgREST column notes, which name a
+ * table of the same schema: columns that point at different columns of one
+ * table are taken to form a composite key, and columns that point at the same
+ * column are separate keys.
+ */
+const getForeignKeys = (tableName: string, columns: ColumnInfo[], catalog?: TableCatalogInfo): TableCatalogInfo['foreignKeys'] => {
+  if (catalog) return catalog.foreignKeys;
+
+  const { schema, table } = parseTableName(tableName);
+  const keys: { references: string; columns: string[]; targetColumns: string[] }[] = [];
+  columns.forEach(col => {
+    if (!col.foreign_key) return;
+    const references = qualifyTableName(schema, col.foreign_key.table);
+    let key = keys.find(candidate => candidate.references === references && !candidate.targetColumns.includes(col.foreign_key!.column));
+    if (!key) {
+      key = { references, columns: [], targetColumns: [] };
+      keys.push(key);
+    }
+    key.columns.push(col.column_name);
+    key.targetColumns.push(col.foreign_key.column);
+  });
+
+  return keys.map(key => ({
+    // The name Postgres would give the constraint
+    name: `${table}_${key.columns.join('_')}_fkey`,
+    definition: `FOREIGN KEY (${key.columns.map(quoteIdentifier).join(', ')}) REFERENCES ${quoteTableName(key.references)} (${key.targetColumns.map(quoteIdentifier).join(', ')})`,
+    references: key.references
+  }));
+};
+
+// Skips a CREATE or ADD CONSTRAINT whose object exists already; Postgres has no IF NOT EXISTS for these
+const ignoreDuplicate = (statement: string): string =>
+  `DO $$ BEGIN\n  ${statement}\nEXCEPTION WHEN duplicate_object THEN NULL;\nEND $$;\n`;
+
+// Drops the tables children first, so a fresh schema can be created in table order
+export const generateDropTables = (tableOrder: string[]): string =>
+  [...tableOrder].reverse().map(tableName => `DROP TABLE IF EXISTS ${quoteTableName(tableName)} CASCADE;\n`).join('');
+
+// CREATE TYPE for the enum types used by the columns. Types are never dropped, since tables outside the export may use them
+export const generateEnumTypes = (columnsByTable: Record<string, ColumnInfo[]>): string => {
+  const types = new Map<string, string[]>();
+  Object.entries(columnsByTable).forEach(([tableName, columns]) => columns.filter(isEnumColumn).forEach(col => {
+    types.set(quoteEnumType(splitArrayType(col.data_type).base, tableName), col.enum_values!);
+  }));
+
+  return Array.from(types.entries())
+    .map(([typeName, values]) => ignoreDuplicate(`CREATE TYPE ${typeName} AS ENUM (${values.map(quoteLiteral).join(', ')});`))
+    .join('');
+};
+
+/**
+ * CREATE TABLE with the primary key, the foreign keys to tables created
+ * earlier (or the table itself) and, when catalog details are available,
+ * UNIQUE and CHECK constraints, identity columns and NOT NULL for every
+ * column that has it. References to tables
+ * created later are added by generateLateForeignKeys; references to tables
+ * outside the file are noted in a comment.
+ */
+export const generateCreateTable = (
+  tableName: string,
+  columns: ColumnInfo[],
+  { ifNotExists, tableOrder }: DDLOptions,
+  catalog?: TableCatalogInfo
+): string => {
+  const position = tableOrder.indexOf(tableName);
+  const definitions = columns.map(col => getColumnDefinition(col, tableName, catalog));
+  const notes: string[] = [];
+
+  const primaryKey = columns.filter(col => col.is_primary_key).map(col => quoteIdentifier(col.column_name));
+  if (primaryKey.length > 0) definitions.push(`PRIMARY KEY (${primaryKey.join(', ')})`);
+
+  getForeignKeys(tableName, columns, catalog).forEach(({ name, definition, references }) => {
+    const targetPosition = tableOrder.indexOf(references);
+    if (references === tableName || (targetPosition !== -1 && targetPosition < position)) {
+      definitions.push(`CONSTRAINT ${quoteIdentifier(name)} ${definition}`);
+    } else if (targetPosition === -1) {
+      notes.push(`-- ${quoteIdentifier(name)} references ${quoteTableName(references)}, which is not part of this export\n`);
+    }
+  });
+
+  catalog?.constraints.forEach(constraint => {
+    definitions.push(`CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`);
+  });
+
+  return notes.join('') +
+    `CREATE TABLE ${ifNotExists ? 'IF NOT EXISTS ' : ''}${quoteTableName(tableName)} (\n` +
+    definitions.map(definition => `  ${definition}`).join(',\n') +
+    '\n);\n';
+};
+
+// ALTER TABLE for foreign keys to tables created later in the file, e.g. one side of a cycle
+export const generateLateForeignKeys = (
+  columnsByTable: Record<string, ColumnInfo[]>,
+  { ifNotExists, tableOrder }: DDLOptions,
+  catalog: Record<string, TableCatalogInfo> = {}
+): string =>
+  tableOrder.flatMap(tableName => getForeignKeys(tableName, columnsByTable[tableName] || [], catalog[tableName]).flatMap(key => {
+    if (tableOrder.indexOf(key.references) <= tableOrder.indexOf(tableName)) return [];
+
+    const statement = `ALTER TABLE ${quoteTableName(tableName)} ADD CONSTRAINT ${quoteIdentifier(key.name)} ${key.definition};`;
+    return [ifNotExists ? ignoreDuplicate(statement) : `${statement}\n`];
+  })).join('');
+
+/**
+ * Reads UNIQUE, CHECK and foreign key constraints, NOT NULL, identity and
+ * generated columns, which the PostgREST schema does not describe or only
+ * in part, from the system catalog.
+ */
+export const loadTableCatalog = async (
+  executeSQL: (query: string) => Promise<SQLResult>,
+  tableNames: string[]
+): Promise<Record<string, TableCatalogInfo>> => {
+  const catalog: Record<string, TableCatalogInfo> = {};
+  tableNames.forEach(tableName => {
+    catalog[tableName] = { constraints: [], foreignKeys: [], notNullColumns: [], identityColumns: {}, generatedColumns: [] };
+  });
+  if (tableNames.length === 0) return catalog;
+
+  const tableList = tableNames.map(quoteLiteral).join(', ');
+  const { rows: constraints } = await executeSQL(
+    `select n.nspname || '.' || c.relname as table_name, con.conname as name, pg_get_constraintdef(con.oid) as definition,
+  con.contype as type, rn.nspname || '.' || rc.relname as references_table
+from pg_constraint con
+join pg_class c on c.oid = con.conrelid
+join pg_namespace n on n.oid = c.relnamespace
+left join pg_class rc on rc.oid = con.confrelid
+left join pg_namespace rn on rn.oid = rc.relnamespace
+where con.contype in ('u', 'c', 'f') and n.nspname || '.' || c.relname in (${tableList})
+order by con.contype desc, con.conname`
+  );
+  const { rows: attributes } = await executeSQL(
+    `select n.nspname || '.' || c.relname as table_name, a.attname as column_name, a.attnotnull as not_null,
+  a.attidentity as identity, a.attgenerated as generated
+from pg_attribute a
+join pg_class c on c.oid = a.attrelid
+join pg_namespace n on n.oid = c.relnamespace
+where a.attnum > 0 and not a.attisdropped and (a.attnotnull or a.attidentity <> '' or a.attgenerated <> '')
+  and n.nspname || '.' || c.relname in (${tableList})`
+  );
+
+  constraints.forEach(row => {
+    const info = catalog[String(row.table_name)];
+    if (!info) return;
+    const constraint = { name: String(row.name), definition: String(row.definition) };
+    if (row.type === 'f') {
+      info.foreignKeys.push({ ...constraint, references: String(row.references_table) });
+    } else {
+      info.constraints.push(constraint);
+    }
+  });
+  attributes.forEach(row => {
+    const info = catalog[String(row.table_name)];
+    if (!info) return;
+    if (row.not_null) info.notNullColumns.push(String(row.column_name));
+    if (row.identity) info.identityColumns[String(row.column_name)] = row.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT';
+    if (row.generated) info.generatedColumns.push(String(row.column_name));
+  });
+
+  return catalog;
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnInfo } from '../types/database';
+import { parseSQLScript, SQLSyntaxError } from './sqlParser';
+import { DEFAULT_VALUE, parseInsertStatement, parseJSONLiterals, toRowObjects } from './sqlInsert';
+
+const parse = (sql: string) => parseInsertStatement(parseSQLScript(sql)[0]);
+
+const column = (column_name: string, format: string): ColumnInfo => ({
+  column_name,
+  data_type: format,
+  is_nullable: 'YES',
+  column_default: null,
+  ordinal_position: 1,
+  json_type: 'string',
+  format
+});
+
+// Rows as they would be sent to PostgREST for a table with the given columns
+const insertedRows = (sql: string, targetColumns: ColumnInfo[]) => {
+  const insert = parse(sql);
+  const columns = insert.columns || targetColumns.map(col => col.column_name);
+  return toRowObjects(parseJSONLiterals(insert, columns, targetColumns), columns);
+};
+
+describe('parseInsertStatement', () => {
+  it('reads the table, column list and multi-row VALUES', () => {
+    expect(parse('INSERT INTO "My Schema".Items (id, "Name") VALUES (1, \'a\'), (-2, NULL);')).toMatchObject({
+      table: 'My Schema.items',
+      columns: ['id', 'Name'],
+      rows: [[1, 'a'], [-2, null]],
+      onConflict: 'fail'
+    });
+  });
+
+  it('defaults to the public schema and the table column order', () => {
+    expect(parse('insert into items values (true)')).toMatchObject({ table: 'public.items', columns: null, rows: [[true]] });
+  });
+
+  it('unescapes E strings and reads dollar-quoted text', () => {
+    expect(parse("INSERT INTO t (a, b, c) VALUES (E'line\\nnext\\x41', 'it''s', $$raw 'text'$$)").rows)
+      .toEqual([['line\nnextA', 'it\'s', 'raw \'text\'']]);
+  });
+
+  it('keeps integers beyond 2^53 as text', () => {
+    expect(parse('INSERT INTO t (a) VALUES (9007199254740993)').rows).toEqual([['9007199254740993']]);
+  });
+
+  it('applies casts, typed literals and ARRAY constructors', () => {
+    const { rows } = parse(
+      "INSERT INTO t (a, b, c, d, e) VALUES ('42'::int, CAST('yes' AS boolean), timestamp '2024-01-02', ARRAY[1, 2], '{\"x\":1}'::jsonb)"
+    );
+    expect(rows).toEqual([[42, true, '2024-01-02', [1, 2], { x: 1 }]]);
+  });
+
+  it('marks DEFAULT values and leaves them out of the row objects', () => {
+    const insert = parse('INSERT INTO t (id, name) VALUES (DEFAULT, \'a\')');
+    expect(insert.rows[0][0]).toBe(DEFAULT_VALUE);
+    expect(toRowObjects(insert.rows, ['id', 'name'])).toEqual([{ name: 'a' }]);
+  });
+
+  it('maps ON CONFLICT DO NOTHING to the ignore strategy', () => {
+    expect(parse('INSERT INTO t (id) VALUES (1) ON CONFLICT (id) DO NOTHING').onConflict).toBe('ignore');
+  });
+
+  it('reads OVERRIDING SYSTEM VALUE and OVERRIDING USER VALUE', () => {
+    expect(parse('INSERT INTO t (id) VALUES (1)').overriding).toBeNull();
+    expect(parse('INSERT INTO t (id) OVERRIDING SYSTEM VALUE VALUES (1)').overriding).toBe('system');
+    expect(parse('INSERT INTO t (id) overriding user value VALUES (1)').overriding).toBe('user');
+  });
+
+  it('rejects statements it cannot translate with the offending line', () => {
+    expect(() => parse('INSERT INTO t (id) VALUES (1) ON CONFLICT (id) DO UPDATE SET id = 2'))
+      .toThrow('Only ON CONFLICT DO NOTHING is supported');
+    expect(() => parse('INSERT INTO t (id) SELECT 1')).toThrow(SQLSyntaxError);
+    expect(() => parse('\nINSERT INTO t (a, b) VALUES (1)')).toThrow('Line 2: Row 1 has 1 values for 2 columns');
+    expect(() => parse("INSERT INTO t (a) VALUES ('x'::boolean)")).toThrow('Invalid boolean literal "x"');
+  });
+});
+
+describe('parseJSONLiterals', () => {
+  const columns = [column('id', 'integer'), column('doc', 'jsonb'), column('note', 'text')];
+
+  it('parses bare string literals for json columns only', () => {
+    expect(insertedRows("INSERT INTO t VALUES (1, '{\"a\":[1,2]}', '{\"a\":1}')", columns))
+      .toEqual([{ id: 1, doc: { a: [1, 2] }, note: '{"a":1}' }]);
+  });
+
+  it('keeps text that is not JSON', () => {
+    expect(insertedRows("INSERT INTO t (doc) VALUES ('plain')", columns)).toEqual([{ doc: 'plain' }]);
+  });
+
+  it('does not parse values a cast already decoded', () => {
+    expect(insertedRows(
+      "INSERT INTO t (id, doc) VALUES (1, '\"123\"'::jsonb), (2, CAST('\"true\"' AS json)), (3, '\"text\"')",
+      columns
+    )).toEqual([
+      { id: 1, doc: '123' },
+      { id: 2, doc: 'true' },
+      { id: 3, doc: 'text' }
+    ]);
+  });
+});
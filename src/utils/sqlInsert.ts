@@ -0,0 +1,427 @@
+import { ColumnInfo } from '../types/database';
+import { SQLStatement, SQLSyntaxError, SQLToken } from './sqlParser';
+import { DEFAULT_SCHEMA, qualifyTableName } from './tableName';
+import { evaluateDefaultExpression } from './mapping';
+
+// Marks a DEFAULT in a VALUES list; the column is left out so the database default applies
+export const DEFAULT_VALUE = Symbol('DEFAULT');
+
+export interface ParsedInsert {
+  // Qualified "schema.table" name
+  table: string;
+  // Column list of the statement, or null when it relies on the table's column order
+  columns: string[] | null;
+  rows: unknown[][];
+  // Per row, the indexes of values written as a bare string literal without a cast
+  untypedLiterals: Set<number>[];
+  // ON CONFLICT DO NOTHING maps to the 'ignore' strategy
+  onConflict: 'fail' | 'ignore';
+  // OVERRIDING SYSTEM VALUE or OVERRIDING USER VALUE, which PostgREST inserts cannot express
+  overriding: 'system' | 'user' | null;
+}
+
+const INTEGER_TYPES = new Set(['smallint', 'integer', 'int', 'int2', 'int4', 'int8', 'bigint', 'serial', 'bigserial']);
+const FLOAT_TYPES = new Set(['real', 'float', 'float4', 'float8', 'double precision']);
+const BOOLEAN_TYPES = new Set(['boolean', 'bool']);
+const TRUE_LITERALS = new Set(['t', 'true', 'y', 'yes', 'on', '1']);
+const FALSE_LITERALS = new Set(['f', 'false', 'n', 'no', 'off', '0']);
+
+// Values the client can compute that match what the database function would return
+const FUNCTION_VALUES: Record<string, () => string | null> = {
+  now: () => evaluateDefaultExpression('now()'),
+  current_timestamp: () => evaluateDefaultExpression('now()'),
+  current_date: () => evaluateDefaultExpression('current_date'),
+  gen_random_uuid: () => evaluateDefaultExpression('gen_random_uuid()'),
+  uuid_generate_v4: () => evaluateDefaultExpression('gen_random_uuid()')
+};
+
+const unescapeEString = (body: string): string =>
+  body.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_, escape: string) => {
+    switch (escape[0]) {
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'n': return '\n';
+      case 'r': return '\r';
+      case 't': return '\t';
+      case 'x': return String.fromCharCode(parseInt(escape.slice(1), 16));
+      case 'u':
+      case 'U': return String.fromCodePoint(parseInt(escape.slice(1), 16));
+    }
+    return /^[0-7]+$/.test(escape) ? String.fromCharCode(parseInt(escape, 8)) : escape;
+  });
+
+// Text of a string token without its prefix, quotes and escapes
+const stringValue = (token: SQLToken): string => {
+  const quoteAt = token.value.indexOf('\'');
+  const body = token.value.slice(quoteAt + 1, -1);
+  const prefix = token.value.slice(0, quoteAt).toUpperCase();
+
+  if (prefix === 'E') return unescapeEString(body.replace(/''/g, '\''));
+  return body.replace(/''/g, '\'');
+};
+
+const dollarStringValue = (token: SQLToken): string => {
+  const tagLength = token.value.indexOf('$', 1) + 1;
+  return token.value.slice(tagLength, -tagLength);
+};
+
+// JSON numbers lose digits beyond 2^53, so larger integers are sent as text
+const numberValue = (text: string): number | string => {
+  const num = Number(text);
+  return /^[-+]?\d+$/.test(text) && !Number.isSafeInteger(num) ? text : num;
+};
+
+/**
+ * Converts a literal to the JSON value PostgREST should receive for a cast.
+ * Types without a JSON counterpart (timestamps, intervals, bytea, uuid, ...)
+ * are sent as text, which Postgres parses on insert.
+ */
+const applyCast = (value: unknown, type: string, token: SQLToken): unknown => {
+  if (value === null || value === DEFAULT_VALUE) return value;
+
+  if (type.endsWith('[]')) {
+    const elementType = type.slice(0, -2);
+    return Array.isArray(value) ? value.map(item => applyCast(item, elementType, token)) : String(value);
+  }
+
+  const baseType = type.replace(/\(.*\)$/, '').trim();
+  if (baseType === 'json' || baseType === 'jsonb') {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new SQLSyntaxError(`Invalid ${baseType} literal`, token.line);
+    }
+  }
+  if (INTEGER_TYPES.has(baseType)) return numberValue(String(value).trim());
+  if (FLOAT_TYPES.has(baseType)) return Number(value);
+  if (baseType === 'numeric' || baseType === 'decimal') return String(value);
+  if (BOOLEAN_TYPES.has(baseType)) {
+    const text = String(value).trim().toLowerCase();
+    if (TRUE_LITERALS.has(text)) return true;
+    if (FALSE_LITERALS.has(text)) return false;
+    throw new SQLSyntaxError(`Invalid boolean literal "${value}"`, token.line);
+  }
+  return typeof value === 'string' ? value : String(value);
+};
+
+class InsertParser {
+  private pos = 0;
+
+  constructor(private tokens: SQLToken[]) {}
+
+  private peek(offset = 0): SQLToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private fail(message: string, token: SQLToken | undefined = this.peek()): never {
+    const line = token?.line ?? this.tokens[this.tokens.length - 1]?.line ?? 1;
+    throw new SQLSyntaxError(token ? `${message} near "${token.value.slice(0, 30)}"` : `${message} at end of statement`, line);
+  }
+
+  private isWord(word: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && (token.type === 'keyword' || token.type === 'identifier') && token.value.toLowerCase() === word;
+  }
+
+  private isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return !!token && (token.type === 'punctuation' || token.type === 'operator') && token.value === symbol;
+  }
+
+  private expectWord(word: string) {
+    if (!this.isWord(word)) this.fail(`Expected ${word.toUpperCase()}`);
+    this.pos++;
+  }
+
+  private expectSymbol(symbol: string) {
+    if (!this.isSymbol(symbol)) this.fail(`Expected "${symbol}"`);
+    this.pos++;
+  }
+
+  // Unquoted names fold to lower case, as in Postgres
+  private identifier(): string {
+    const token = this.peek();
+    if (token?.type === 'quoted_identifier') {
+      this.pos++;
+      const quoteAt = token.value.indexOf('"');
+      return token.value.slice(quoteAt + 1, -1).replace(/""/g, '"');
+    }
+    if (token?.type === 'identifier' || token?.type === 'keyword') {
+      this.pos++;
+      return token.value.toLowerCase();
+    }
+    return this.fail('Expected a name');
+  }
+
+  private typeName(): string {
+    const words: string[] = [];
+    while (this.peek() && (this.peek()!.type === 'identifier' || this.peek()!.type === 'keyword' || this.peek()!.type === 'quoted_identifier')) {
+      words.push(this.identifier());
+      if (this.isSymbol('.')) {
+        this.pos++;
+        words.length = 0; // Keep only the unqualified type name
+      }
+    }
+    if (words.length === 0) this.fail('Expected a type name');
+
+    let type = words.join(' ');
+    if (this.isSymbol('(')) {
+      while (this.peek() && !this.isSymbol(')')) this.pos++;
+      this.expectSymbol(')');
+    }
+    while (this.isSymbol('[')) {
+      this.pos++;
+      if (this.peek()?.type === 'number') this.pos++;
+      this.expectSymbol(']');
+      type += '[]';
+    }
+    return type;
+  }
+
+  private commaSeparated<T>(item: () => T): T[] {
+    const items = [item()];
+    while (this.isSymbol(',')) {
+      this.pos++;
+      items.push(item());
+    }
+    return items;
+  }
+
+  private arrayElements(): unknown[] {
+    // ARRAY[] and nested [..] brackets inside an ARRAY constructor
+    this.expectSymbol('[');
+    if (this.isSymbol(']')) {
+      this.pos++;
+      return [];
+    }
+    const elements = this.commaSeparated(() => (this.isSymbol('[') ? this.arrayElements() : this.expression()));
+    this.expectSymbol(']');
+    return elements;
+  }
+
+  private primary(): unknown {
+    const token = this.peek();
+    if (!token) return this.fail('Expected a value');
+
+    if ((token.value === '-' || token.value === '+') && token.type === 'operator' && this.peek(1)?.type === 'number') {
+      this.pos += 2;
+      return numberValue(token.value + this.peek(-1)!.value);
+    }
+
+    switch (token.type) {
+      case 'number':
+        this.pos++;
+        return numberValue(token.value);
+      case 'string':
+        this.pos++;
+        return stringValue(token);
+      case 'dollar_string':
+        this.pos++;
+        return dollarStringValue(token);
+    }
+
+    if (this.isSymbol('(')) {
+      this.pos++;
+      const value = this.expression();
+      this.expectSymbol(')');
+      return value;
+    }
+
+    if (token.type !== 'keyword' && token.type !== 'identifier') return this.fail('Unsupported value');
+    const word = token.value.toLowerCase();
+
+    if (word === 'null') {
+      this.pos++;
+      return null;
+    }
+    if (word === 'true' || word === 'false') {
+      this.pos++;
+      return word === 'true';
+    }
+    if (word === 'default') {
+      this.pos++;
+      return DEFAULT_VALUE;
+    }
+    if (word === 'array' && this.isSymbol('[', 1)) {
+      this.pos++;
+      return this.arrayElements();
+    }
+    if (word === 'cast' && this.isSymbol('(', 1)) {
+      this.pos += 2;
+      const value = this.expression();
+      this.expectWord('as');
+      const type = this.typeName();
+      this.expectSymbol(')');
+      return applyCast(value, type, token);
+    }
+    if (FUNCTION_VALUES[word]) {
+      this.pos++;
+      if (this.isSymbol('(')) {
+        this.pos++;
+        this.expectSymbol(')');
+      }
+      return FUNCTION_VALUES[word]();
+    }
+
+    // Typed literals such as timestamp '2024-01-01' or interval '1 day'
+    const start = this.pos;
+    try {
+      const type = this.typeName();
+      const literal = this.peek();
+      if (literal?.type === 'string') {
+        this.pos++;
+        return applyCast(stringValue(literal), type, token);
+      }
+    } catch (err) {
+      if (!(err instanceof SQLSyntaxError)) throw err;
+    }
+    this.pos = start;
+    return this.fail('Unsupported expression');
+  }
+
+  private expression(): unknown {
+    const token = this.peek();
+    let value = this.primary();
+    while (this.isSymbol('::')) {
+      this.pos++;
+      value = applyCast(value, this.typeName(), token!);
+    }
+    return value;
+  }
+
+  parse(): ParsedInsert {
+    this.expectWord('insert');
+    this.expectWord('into');
+
+    let name = this.identifier();
+    let schema = DEFAULT_SCHEMA;
+    if (this.isSymbol('.')) {
+      this.pos++;
+      schema = name;
+      name = this.identifier();
+    }
+
+    if (this.isWord('as')) {
+      this.pos++;
+      this.identifier();
+    }
+
+    let columns: string[] | null = null;
+    if (this.isSymbol('(')) {
+      this.pos++;
+      columns = this.commaSeparated(() => this.identifier());
+      this.expectSymbol(')');
+    }
+
+    let overriding: ParsedInsert['overriding'] = null;
+    if (this.isWord('overriding')) {
+      this.pos++;
+      if (!this.isWord('system') && !this.isWord('user')) this.fail('Expected SYSTEM or USER');
+      overriding = this.isWord('system') ? 'system' : 'user';
+      this.pos++;
+      this.expectWord('value');
+    }
+
+    let rows: unknown[][];
+    const untypedLiterals: Set<number>[] = [];
+    if (this.isWord('default') && this.isWord('values', 1)) {
+      this.pos += 2;
+      rows = [[]];
+      untypedLiterals.push(new Set());
+    } else {
+      this.expectWord('values');
+      rows = this.commaSeparated(() => {
+        this.expectSymbol('(');
+        const untyped = new Set<number>();
+        let index = 0;
+        const values = this.commaSeparated(() => {
+          const start = this.peek();
+          const at = this.pos;
+          const value = this.expression();
+          // A lone string token is still of unknown type; the target column decides how Postgres reads it
+          if (this.pos === at + 1 && (start?.type === 'string' || start?.type === 'dollar_string')) {
+            untyped.add(index);
+          }
+          index++;
+          return value;
+        });
+        this.expectSymbol(')');
+        untypedLiterals.push(untyped);
+        return values;
+      });
+    }
+
+    let onConflict: ParsedInsert['onConflict'] = 'fail';
+    if (this.isWord('on') && this.isWord('conflict', 1)) {
+      this.pos += 2;
+      // The conflict target does not matter for DO NOTHING
+      if (this.isSymbol('(')) {
+        while (this.peek() && !this.isSymbol(')')) this.pos++;
+        this.expectSymbol(')');
+      } else if (this.isWord('on') && this.isWord('constraint', 1)) {
+        this.pos += 2;
+        this.identifier();
+      }
+      this.expectWord('do');
+      if (!this.isWord('nothing')) this.fail('Only ON CONFLICT DO NOTHING is supported');
+      this.pos++;
+      onConflict = 'ignore';
+    }
+
+    if (this.peek()) this.fail('Unsupported clause');
+
+    rows.forEach((row, index) => {
+      if (columns && row.length !== columns.length) {
+        this.fail(`Row ${index + 1} has ${row.length} values for ${columns.length} columns`, this.tokens[0]);
+      }
+    });
+
+    return { table: qualifyTableName(schema, name), columns, rows, untypedLiterals, onConflict, overriding };
+  }
+}
+
+/**
+ * Parses an INSERT ... VALUES statement made of literal values into rows
+ * PostgREST can insert. INSERT ... SELECT, RETURNING, ON CONFLICT DO UPDATE
+ * and expressions other than literals, casts, ARRAY[...] and a few
+ * well-known functions raise an SQLSyntaxError with the offending line.
+ */
+export const parseInsertStatement = (statement: SQLStatement): ParsedInsert =>
+  new InsertParser(statement.tokens).parse();
+
+// Builds row objects; DEFAULT values are left out so the column default applies
+export const toRowObjects = (rows: unknown[][], columns: string[]): Record<string, unknown>[] =>
+  rows.map(values =>
+    values.reduce<Record<string, unknown>>((row, value, index) => {
+      if (value !== DEFAULT_VALUE) row[columns[index]] = value;
+      return row;
+    }, {})
+  );
+
+/**
+ * A bare string literal inserted into a json/jsonb column is parsed as JSON
+ * by Postgres, but PostgREST would store it as a JSON string, so such values
+ * are parsed before sending. Values that went through a cast are final, and
+ * text that is not valid JSON is sent as is.
+ */
+export const parseJSONLiterals = (insert: ParsedInsert, columns: string[], targetColumns: ColumnInfo[]): unknown[][] => {
+  const jsonColumns = new Set(targetColumns
+    .filter(col => col.format === 'json' || col.format === 'jsonb')
+    .map(col => col.column_name));
+  if (jsonColumns.size === 0) return insert.rows;
+
+  return insert.rows.map((values, rowIndex) =>
+    values.map((value, index) => {
+      if (typeof value !== 'string' || !jsonColumns.has(columns[index]) || !insert.untypedLiterals[rowIndex].has(index)) {
+        return value;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        // Not JSON text; keep the string
+        return value;
+      }
+    })
+  );
+};
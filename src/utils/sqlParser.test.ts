@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { parseSQLScript, SQLSyntaxError, tokenizeSQL } from './sqlParser';
+
+const significant = (sql: string) =>
+  tokenizeSQL(sql).filter(token => token.type !== 'whitespace').map(token => [token.type, token.value]);
+
+describe('tokenizeSQL', () => {
+  it('gives back the original text when the token values are joined', () => {
+    const sql = "INSERT INTO \"my table\" (a) VALUES (E'it\\'s', $$x;y$$); -- done\n";
+    expect(tokenizeSQL(sql).map(token => token.value).join('')).toBe(sql);
+  });
+
+  it('reads doubled quotes in strings and backslash escapes only in E strings', () => {
+    expect(significant("'it''s'")).toEqual([['string', "'it''s'"]]);
+    expect(significant("E'a\\'b'")).toEqual([['string', "E'a\\'b'"]]);
+    expect(significant("'a\\' , 'b'")).toEqual([
+      ['string', "'a\\'"],
+      ['punctuation', ','],
+      ['string', "'b'"]
+    ]);
+  });
+
+  it('reads dollar-quoted bodies up to the matching tag', () => {
+    expect(significant('$fn$ select $$inner$$; $fn$')).toEqual([['dollar_string', '$fn$ select $$inner$$; $fn$']]);
+    expect(significant('$1 + $2')).toEqual([
+      ['parameter', '$1'],
+      ['operator', '+'],
+      ['parameter', '$2']
+    ]);
+  });
+
+  it('nests block comments and keeps -- comments to the end of the line', () => {
+    expect(significant('/* a /* b */ c */ x')).toEqual([
+      ['comment', '/* a /* b */ c */'],
+      ['identifier', 'x']
+    ]);
+    expect(significant('a=-- note\nb')).toEqual([
+      ['identifier', 'a'],
+      ['operator', '='],
+      ['comment', '-- note'],
+      ['identifier', 'b']
+    ]);
+  });
+
+  it('tells keywords from identifiers and splits casts from punctuation', () => {
+    expect(significant('SELECT id::text FROM t')).toEqual([
+      ['keyword', 'SELECT'],
+      ['identifier', 'id'],
+      ['operator', '::'],
+      ['identifier', 'text'],
+      ['keyword', 'FROM'],
+      ['identifier', 't']
+    ]);
+  });
+
+  it('counts lines inside multi-line tokens', () => {
+    const tokens = tokenizeSQL("'a\nb'\n/* c\n */ x").filter(token => token.type !== 'whitespace');
+    expect(tokens.map(token => token.line)).toEqual([1, 3, 4]);
+  });
+
+  it('reports unterminated text with the line it starts on', () => {
+    expect(() => tokenizeSQL("select 1;\nselect 'open")).toThrow('Line 2: Unterminated string literal');
+    expect(() => tokenizeSQL('/* a /* b */')).toThrow(SQLSyntaxError);
+    expect(() => tokenizeSQL('$tag$ body')).toThrow('Unterminated dollar-quoted string $tag$');
+  });
+});
+
+describe('parseSQLScript', () => {
+  it('splits at semicolons outside of strings, identifiers, bodies and comments', () => {
+    const statements = parseSQLScript([
+      "INSERT INTO t VALUES ('a;b');",
+      'SELECT "x;y" FROM t; -- c;d',
+      'CREATE FUNCTION f() RETURNS void AS $$ BEGIN; END $$ LANGUAGE plpgsql;',
+      '/* ; */ COMMIT'
+    ].join('\n'));
+
+    expect(statements.map(statement => [statement.type, statement.keyword])).toEqual([
+      ['insert', 'INSERT'],
+      ['select', 'SELECT'],
+      ['ddl', 'CREATE'],
+      ['transaction', 'COMMIT']
+    ]);
+    expect(statements[0].sql).toBe("INSERT INTO t VALUES ('a;b')");
+    expect(statements[3].sql).toBe('COMMIT');
+  });
+
+  it('skips empty statements and leaves leading comments out of the statement', () => {
+    const statements = parseSQLScript(';;\n-- header\n\nselect 1;;');
+    expect(statements).toHaveLength(1);
+    expect(statements[0].sql).toBe('select 1');
+    expect(statements[0].startLine).toBe(4);
+  });
+
+  it('reports the lines a statement spans, including multi-line tokens at its end', () => {
+    const statements = parseSQLScript("select 1;\n\nupdate t\nset a = 'x\ny';");
+    expect(statements[1]).toMatchObject({ type: 'update', startLine: 3, endLine: 5 });
+  });
+
+  it('types statements it does not know as other', () => {
+    expect(parseSQLScript('VACUUM t')[0]).toMatchObject({ type: 'other', keyword: 'VACUUM' });
+  });
+});
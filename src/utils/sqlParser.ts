@@ -0,0 +1,256 @@
+export type SQLTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'keyword'
+  | 'identifier'
+  | 'quoted_identifier'
+  | 'string'
+  | 'dollar_string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  value: string;
+  // Offsets into the script, end exclusive
+  start: number;
+  end: number;
+  // 1-based line the token starts on
+  line: number;
+}
+
+export type SQLStatementType = 'insert' | 'update' | 'delete' | 'select' | 'ddl' | 'transaction' | 'set' | 'other';
+
+export interface SQLStatement {
+  type: SQLStatementType;
+  // First keyword of the statement, upper-cased (INSERT, CREATE, ...)
+  keyword: string;
+  // Statement text without leading comments or the terminating semicolon
+  sql: string;
+  startLine: number;
+  endLine: number;
+  // Tokens of the statement without whitespace and comments
+  tokens: SQLToken[];
+}
+
+export class SQLSyntaxError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'SQLSyntaxError';
+    this.line = line;
+  }
+}
+
+// Words highlighted as keywords; anything else that looks like a name is an identifier
+export const SQL_KEYWORDS = new Set([
+  'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'cascade', 'case', 'check', 'column',
+  'commit', 'constraint', 'create', 'cross', 'default', 'delete', 'desc', 'distinct', 'do', 'drop', 'else',
+  'end', 'exists', 'false', 'foreign', 'from', 'full', 'function', 'grant', 'group', 'having', 'if', 'ilike',
+  'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'language', 'left', 'like', 'limit', 'not',
+  'null', 'offset', 'on', 'or', 'order', 'outer', 'policy', 'primary', 'references', 'replace', 'returning',
+  'returns', 'revoke', 'right', 'rollback', 'schema', 'select', 'sequence', 'set', 'table', 'then', 'to',
+  'transaction', 'trigger', 'true', 'truncate', 'type', 'union', 'unique', 'update', 'using', 'values',
+  'view', 'when', 'where', 'with'
+]);
+
+const STATEMENT_TYPES: Record<string, SQLStatementType> = {
+  INSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  SELECT: 'select',
+  WITH: 'select',
+  VALUES: 'select',
+  TABLE: 'select',
+  CREATE: 'ddl',
+  ALTER: 'ddl',
+  DROP: 'ddl',
+  TRUNCATE: 'ddl',
+  COMMENT: 'ddl',
+  GRANT: 'ddl',
+  REVOKE: 'ddl',
+  BEGIN: 'transaction',
+  START: 'transaction',
+  COMMIT: 'transaction',
+  END: 'transaction',
+  ROLLBACK: 'transaction',
+  SAVEPOINT: 'transaction',
+  SET: 'set',
+  RESET: 'set'
+};
+
+const isIdentifierStart = (char: string) => /[A-Za-z_\u0080-\uffff]/.test(char);
+const isIdentifierPart = (char: string) => /[A-Za-z0-9_$\u0080-\uffff]/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?';
+const PUNCTUATION_CHARS = '(),;[].:';
+// Sticky patterns match at lastIndex without copying the rest of the script
+const DOLLAR_TAG_PATTERN = /\$([A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/y;
+const NUMBER_PATTERN = /(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/y;
+
+const matchAt = (pattern: RegExp, text: string, pos: number): string | null => {
+  pattern.lastIndex = pos;
+  const match = pattern.exec(text);
+  return match ? match[0] : null;
+};
+
+/**
+ * Splits a script into tokens following the PostgreSQL lexical rules that
+ * matter for finding statement boundaries: '' and E'' strings, "" identifiers,
+ * $tag$ bodies, -- and nested block comments. Concatenating the token values
+ * gives back the original text.
+ */
+export const tokenizeSQL = (sql: string): SQLToken[] => {
+  const tokens: SQLToken[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const push = (type: SQLTokenType, end: number) => {
+    const value = sql.slice(pos, end);
+    tokens.push({ type, value, start: pos, end, line });
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === '\n') line++;
+    }
+    pos = end;
+  };
+
+  // Finds the end of a quoted section; backslashes escape the next character in E'' strings
+  const readQuoted = (openAt: number, quote: string, backslashEscapes: boolean, what: string): number => {
+    let i = openAt + 1;
+    while (i < sql.length) {
+      const char = sql[i];
+      if (backslashEscapes && char === '\\') {
+        i += 2;
+      } else if (char === quote) {
+        if (sql[i + 1] === quote) {
+          i += 2;
+        } else {
+          return i + 1;
+        }
+      } else {
+        i++;
+      }
+    }
+    throw new SQLSyntaxError(`Unterminated ${what}`, line);
+  };
+
+  while (pos < sql.length) {
+    const char = sql[pos];
+    const next = sql[pos + 1];
+
+    if (/\s/.test(char)) {
+      let end = pos + 1;
+      while (end < sql.length && /\s/.test(sql[end])) end++;
+      push('whitespace', end);
+    } else if (char === '-' && next === '-') {
+      const newline = sql.indexOf('\n', pos);
+      push('comment', newline === -1 ? sql.length : newline);
+    } else if (char === '/' && next === '*') {
+      // Block comments nest in PostgreSQL
+      let depth = 0;
+      let i = pos;
+      while (i < sql.length) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+          if (depth === 0) break;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) throw new SQLSyntaxError('Unterminated block comment', line);
+      push('comment', i);
+    } else if (char === '\'') {
+      push('string', readQuoted(pos, '\'', false, 'string literal'));
+    } else if (/[eE]/.test(char) && next === '\'') {
+      push('string', readQuoted(pos + 1, '\'', true, 'string literal'));
+    } else if (/[bBxXnN]/.test(char) && next === '\'') {
+      push('string', readQuoted(pos + 1, '\'', false, 'string literal'));
+    } else if (/[uU]/.test(char) && next === '&' && (sql[pos + 2] === '\'' || sql[pos + 2] === '"')) {
+      const quote = sql[pos + 2];
+      push(quote === '"' ? 'quoted_identifier' : 'string', readQuoted(pos + 2, quote, false, 'quoted text'));
+    } else if (char === '"') {
+      push('quoted_identifier', readQuoted(pos, '"', false, 'quoted identifier'));
+    } else if (char === '$' && next !== undefined && isDigit(next)) {
+      let end = pos + 1;
+      while (end < sql.length && isDigit(sql[end])) end++;
+      push('parameter', end);
+    } else if (char === '$' && matchAt(DOLLAR_TAG_PATTERN, sql, pos)) {
+      const tag = matchAt(DOLLAR_TAG_PATTERN, sql, pos)!;
+      const close = sql.indexOf(tag, pos + tag.length);
+      if (close === -1) throw new SQLSyntaxError(`Unterminated dollar-quoted string ${tag}`, line);
+      push('dollar_string', close + tag.length);
+    } else if (isDigit(char) || (char === '.' && next !== undefined && isDigit(next))) {
+      push('number', pos + matchAt(NUMBER_PATTERN, sql, pos)!.length);
+    } else if (isIdentifierStart(char)) {
+      let end = pos + 1;
+      while (end < sql.length && isIdentifierPart(sql[end])) end++;
+      push(SQL_KEYWORDS.has(sql.slice(pos, end).toLowerCase()) ? 'keyword' : 'identifier', end);
+    } else if (char === ':' && next === ':') {
+      push('operator', pos + 2);
+    } else if (PUNCTUATION_CHARS.includes(char)) {
+      push('punctuation', pos + 1);
+    } else if (OPERATOR_CHARS.includes(char)) {
+      let end = pos + 1;
+      // Stop before a comment start so "x=-- note" keeps the comment
+      while (
+        end < sql.length &&
+        OPERATOR_CHARS.includes(sql[end]) &&
+        !(sql[end] === '-' && sql[end + 1] === '-') &&
+        !(sql[end] === '/' && sql[end + 1] === '*')
+      ) end++;
+      push('operator', end);
+    } else {
+      throw new SQLSyntaxError(`Unexpected character "${char}"`, line);
+    }
+  }
+
+  return tokens;
+};
+
+const isSignificant = (token: SQLToken) => token.type !== 'whitespace' && token.type !== 'comment';
+
+const toStatement = (sql: string, tokens: SQLToken[]): SQLStatement => {
+  const first = tokens[0];
+  const last = tokens[tokens.length - 1];
+  const keyword = first.type === 'keyword' || first.type === 'identifier' ? first.value.toUpperCase() : '';
+
+  return {
+    type: STATEMENT_TYPES[keyword] || 'other',
+    keyword,
+    sql: sql.slice(first.start, last.end),
+    startLine: first.line,
+    endLine: last.line + (last.value.match(/\n/g)?.length || 0),
+    tokens
+  };
+};
+
+/**
+ * Splits a script into statements at semicolons outside of strings, quoted
+ * identifiers, dollar-quoted bodies and comments. Comments before or between
+ * statements are not part of any statement.
+ */
+export const parseSQLScript = (sql: string): SQLStatement[] => {
+  const statements: SQLStatement[] = [];
+  let current: SQLToken[] = [];
+
+  tokenizeSQL(sql).forEach(token => {
+    if (!isSignificant(token)) return;
+
+    if (token.type === 'punctuation' && token.value === ';') {
+      if (current.length > 0) statements.push(toStatement(sql, current));
+      current = [];
+    } else {
+      current.push(token);
+    }
+  });
+
+  if (current.length > 0) statements.push(toStatement(sql, current));
+  return statements;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createClient } from '@supabase/supabase-js';
+import { executeWithProvider, getSequenceResetSQL, getSQLFunctionSetup, SQLExecutionError } from './sqlProviders';
+
+// A client whose RPC calls answer with the given status and body
+const createFakeClient = (body: unknown, status = 200) => {
+  const fetch = async () =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  return createClient('http://localhost:54321', 'anon-key', { global: { fetch } });
+};
+
+const rpc = { type: 'rpc', functionName: 'exec_sql' } as const;
+
+describe('getSQLFunctionSetup', () => {
+  it('strips trailing semicolons before wrapping the query and reports statements without rows', () => {
+    const sql = getSQLFunctionSetup('admin.run_sql');
+    expect(sql).toContain('create or replace function "admin"."run_sql"(query text)');
+    expect(sql).toContain('query := regexp_replace(query, \'[;[:space:]]+$\', \'\');');
+    expect(sql).toContain('jsonb_build_object(\'status\', \'statement executed, no result set\')');
+  });
+});
+
+describe('getSequenceResetSQL', () => {
+  it('only selects a row when the column has a sequence', () => {
+    expect(getSequenceResetSQL('sales.orders', 'id')).toBe(
+      'select setval(seq, coalesce((select max("id") from "sales"."orders"), 0) + 1, false) as value\n' +
+      'from pg_get_serial_sequence(\'"sales"."orders"\', \'id\') as seq\n' +
+      'where seq is not null'
+    );
+  });
+});
+
+describe('executeWithProvider', () => {
+  it('returns the rows of a query', async () => {
+    const result = await executeWithProvider(createFakeClient([{ ok: 1 }]), rpc, 'select 1 as ok');
+    expect(result).toEqual({ rows: [{ ok: 1 }], hasResultSet: true });
+  });
+
+  it('tells an empty result set from a statement without one', async () => {
+    expect(await executeWithProvider(createFakeClient([]), rpc, 'select 1 where false'))
+      .toEqual({ rows: [], hasResultSet: true });
+    expect(await executeWithProvider(createFakeClient({ status: 'statement executed, no result set' }), rpc, 'create table t ()'))
+      .toEqual({ rows: [], hasResultSet: false });
+  });
+
+  it('passes on the Postgres error fields', async () => {
+    const client = createFakeClient({ code: '42P01', message: 'relation "x" does not exist', details: null, hint: 'Check the name' }, 400);
+    const error = await executeWithProvider(client, rpc, 'select * from x').catch(err => err);
+    expect(error).toBeInstanceOf(SQLExecutionError);
+    expect(error).toMatchObject({ code: '42P01', message: 'relation "x" does not exist', hint: 'Check the name' });
+  });
+});
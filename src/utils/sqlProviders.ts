@@ -0,0 +1,155 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SQLProviderConfig, SQLResult } from '../types/database';
+import { parseTableName, quoteIdentifier, quoteTableName } from './tableName';
+import { readStoredJSON, writeStoredJSON } from './storage';
+
+export const DEFAULT_SQL_FUNCTION = 'exec_sql';
+export const DEFAULT_MANAGEMENT_API_URL = 'https://api.supabase.com';
+
+// Postgres error fields, when the provider reports them
+export class SQLExecutionError extends Error {
+  code?: string;
+  // 1-based character offset into the query
+  position?: number;
+  detail?: string;
+  hint?: string;
+
+  constructor(message: string, fields: { code?: string; position?: number; detail?: string; hint?: string } = {}) {
+    super(message);
+    this.name = 'SQLExecutionError';
+    Object.assign(this, fields);
+  }
+}
+
+// Project URLs look like https://<ref>.supabase.co
+export const getProjectRef = (url: string): string => {
+  try {
+    return new URL(url).hostname.split('.')[0];
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * SQL that creates the function the RPC provider calls. Queries that return
+ * rows come back as a JSON array; anything that cannot be wrapped in a
+ * subquery (DDL, DML, several statements) runs as is and returns a status
+ * object instead. Trailing semicolons would break the subquery, so they are
+ * stripped first.
+ */
+export const getSQLFunctionSetup = (functionName: string): string => {
+  const { schema, table: name } = parseTableName(functionName);
+  const qualified = `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+
+  return `create or replace function ${qualified}(query text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  result jsonb;
+begin
+  query := regexp_replace(query, '[;[:space:]]+$', '');
+  begin
+    execute format('select coalesce(jsonb_agg(t), ''[]''::jsonb) from (%s) t', query) into result;
+  exception when syntax_error then
+    execute query;
+    result := jsonb_build_object('status', 'statement executed, no result set');
+  end;
+  return result;
+end;
+$$;
+
+-- Only the service role may run arbitrary SQL
+revoke execute on function ${qualified}(text) from public, anon, authenticated;
+grant execute on function ${qualified}(text) to service_role;
+
+-- Make the new function visible to the API
+notify pgrst, 'reload schema';
+`;
+};
+
+// Management API errors embed the Postgres message, e.g. "ERROR:  42P01: relation "x" does not exist"
+const parseManagementError = (message: string): SQLExecutionError => {
+  const code = message.match(/ERROR:\s+([0-9A-Z]{5}):/)?.[1];
+  const position = message.match(/position[":\s]+(\d+)/i)?.[1];
+  return new SQLExecutionError(message, { code, position: position ? Number(position) : undefined });
+};
+
+const executeWithRPC = async (client: SupabaseClient, functionName: string, query: string): Promise<SQLResult> => {
+  const { schema, table: name } = parseTableName(functionName);
+  const { data, error } = await client.schema(schema).rpc(name, { query });
+  if (error) {
+    throw new SQLExecutionError(error.message, {
+      code: error.code,
+      detail: error.details || undefined,
+      hint: error.hint || undefined
+    });
+  }
+  // Anything but an array is the function's status for a statement without rows
+  return Array.isArray(data) ? { rows: data, hasResultSet: true } : { rows: [], hasResultSet: false };
+};
+
+const executeWithManagementAPI = async (
+  config: Extract<SQLProviderConfig, { type: 'management-api' }>,
+  query: string
+): Promise<SQLResult> => {
+  const response = await fetch(
+    `${config.baseUrl.replace(/\/+$/, '')}/v1/projects/${encodeURIComponent(config.projectRef)}/database/query`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ query })
+    }
+  );
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw parseManagementError(body?.message || `${response.status} ${response.statusText}`);
+  }
+  // The endpoint answers [] for statements without rows too, so those show as an empty result
+  return { rows: Array.isArray(body) ? body : [], hasResultSet: true };
+};
+
+export const executeWithProvider = (
+  client: SupabaseClient,
+  config: SQLProviderConfig,
+  query: string
+): Promise<SQLResult> =>
+  config.type === 'rpc'
+    ? executeWithRPC(client, config.functionName, query)
+    : executeWithManagementAPI(config, query);
+
+const storageKey = (projectUrl: string) => `sql-provider:${projectUrl}`;
+
+/**
+ * Provider settings are remembered per project. The access token is left
+ * out, so the Management API has to be re-enabled in each session.
+ */
+export const loadSQLProviderConfig = (projectUrl: string): SQLProviderConfig | null =>
+  readStoredJSON<SQLProviderConfig | null>(storageKey(projectUrl), null);
+
+export const saveSQLProviderConfig = (projectUrl: string, config: SQLProviderConfig): void => {
+  writeStoredJSON(storageKey(projectUrl), config.type === 'management-api' ? { ...config, accessToken: '' } : config);
+};
+
+/**
+ * Moves the sequence behind a serial or identity column past the largest
+ * value in the table, so rows inserted with explicit ids do not collide
+ * with later default ids. Returns one row when a sequence was moved and
+ * none for columns without a sequence.
+ */
+export const getSequenceResetSQL = (tableName: string, columnName: string): string => {
+  const table = quoteTableName(tableName);
+  const column = quoteIdentifier(columnName);
+  const tableLiteral = `'${table.replace(/'/g, "''")}'`;
+  const columnLiteral = `'${columnName.replace(/'/g, "''")}'`;
+
+  return `select setval(seq, coalesce((select max(${column}) from ${table}), 0) + 1, false) as value
+from pg_get_serial_sequence(${tableLiteral}, ${columnLiteral}) as seq
+where seq is not null`;
+};
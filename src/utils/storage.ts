@@ -0,0 +1,19 @@
+// Settings kept in the browser share one prefix so they are easy to find and clear
+const STORAGE_PREFIX = 'supabase-db-manager:';
+
+export const readStoredJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    return fallback;
+  }
+};
+
+export const writeStoredJSON = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    throw new Error('Failed to save settings: ' + (err instanceof Error ? err.message : 'Unknown error'));
+  }
+};
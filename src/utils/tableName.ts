@@ -0,0 +1,44 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export const DEFAULT_SCHEMA = 'public';
+
+export interface QualifiedTableName {
+  schema: string;
+  table: string;
+}
+
+export const qualifyTableName = (schema: string, table: string): string => `${schema}.${table}`;
+
+/**
+ * Splits a "schema.table" name. Names without a schema (for example the keys
+ * of exports made before multi-schema support) belong to the public schema.
+ */
+export const parseTableName = (name: string): QualifiedTableName => {
+  const dot = name.indexOf('.');
+  if (dot === -1) {
+    return { schema: DEFAULT_SCHEMA, table: name };
+  }
+  return { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+};
+
+// Normalizes legacy unqualified names to "schema.table"
+export const normalizeTableName = (name: string): string => {
+  const { schema, table } = parseTableName(name);
+  return qualifyTableName(schema, table);
+};
+
+export const quoteIdentifier = (identifier: string): string => `"${identifier.replace(/"/g, '""')}"`;
+
+export const quoteTableName = (name: string): string => {
+  const { schema, table } = parseTableName(name);
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+};
+
+/**
+ * Starts a PostgREST query against a possibly schema-qualified table. The
+ * schema is sent as Accept-Profile on reads and Content-Profile on writes.
+ */
+export const fromTable = (client: SupabaseClient, name: string) => {
+  const { schema, table } = parseTableName(name);
+  return client.schema(schema).from(table);
+};
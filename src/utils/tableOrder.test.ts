@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnInfo } from '../types/database';
+import { ForeignKeyEdge, getForeignKeyEdges, getReadPasses, sortTablesByDependencies } from './tableOrder';
+
+const column = (column_name: string, options: Partial<ColumnInfo> = {}): ColumnInfo => ({
+  column_name,
+  data_type: 'integer',
+  is_nullable: 'YES',
+  column_default: null,
+  ordinal_position: 1,
+  json_type: 'integer',
+  ...options
+});
+
+const edge = (table: string, references: string, deferrable = true): ForeignKeyEdge => ({
+  table,
+  column: `${references}_id`,
+  references,
+  keyColumns: ['id'],
+  deferrable
+});
+
+describe('getForeignKeyEdges', () => {
+  it('qualifies referenced tables with the schema of the referencing table', () => {
+    const edges = getForeignKeyEdges({
+      'sales.orders': [
+        column('id', { is_primary_key: true, is_nullable: 'NO' }),
+        column('customer_id', { is_nullable: 'NO', foreign_key: { table: 'customers', column: 'id' } }),
+        column('parent_id', { foreign_key: { table: 'orders', column: 'id' } })
+      ],
+      'public.notes': null
+    });
+
+    expect(edges).toEqual([
+      { table: 'sales.orders', column: 'customer_id', references: 'sales.customers', keyColumns: ['id'], deferrable: false },
+      { table: 'sales.orders', column: 'parent_id', references: 'sales.orders', keyColumns: ['id'], deferrable: true }
+    ]);
+  });
+
+  it('does not defer references of tables without a primary key', () => {
+    const [only] = getForeignKeyEdges({ 'public.log': [column('user_id', { foreign_key: { table: 'users', column: 'id' } })] });
+    expect(only.deferrable).toBe(false);
+  });
+});
+
+describe('sortTablesByDependencies', () => {
+  it('puts referenced tables first and keeps the given order otherwise', () => {
+    const { order, deferred } = sortTablesByDependencies(
+      ['orders', 'notes', 'items', 'customers'],
+      [edge('orders', 'customers'), edge('items', 'orders'), edge('orders', 'missing')]
+    );
+    expect(order).toEqual(['notes', 'customers', 'orders', 'items']);
+    expect(deferred).toEqual([]);
+  });
+
+  it('defers self-references', () => {
+    const self = edge('employees', 'employees');
+    expect(sortTablesByDependencies(['employees'], [self])).toEqual({ order: ['employees'], deferred: [self] });
+  });
+
+  it('breaks a cycle at the first table whose references can be deferred', () => {
+    const aToB = edge('a', 'b', false);
+    const bToA = edge('b', 'a');
+    const { order, deferred } = sortTablesByDependencies(['a', 'b'], [aToB, bToA]);
+    expect(order).toEqual(['b', 'a']);
+    expect(deferred).toEqual([bToA]);
+  });
+
+  it('keeps the given order for a cycle of NOT NULL references', () => {
+    const { order, deferred } = sortTablesByDependencies(['a', 'b'], [edge('a', 'b', false), edge('b', 'a', false)]);
+    expect(order).toEqual(['a', 'b']);
+    expect(deferred).toEqual([]);
+  });
+});
+
+describe('getReadPasses', () => {
+  it('reads a file in dependency order once', () => {
+    expect(getReadPasses(['a', 'b', 'c'], ['a', 'b', 'c'])).toEqual([['a', 'b', 'c']]);
+  });
+
+  it('starts a new pass for a table the file holds too early', () => {
+    expect(getReadPasses(['items', 'orders', 'customers', 'notes'], ['customers', 'notes', 'orders', 'items']))
+      .toEqual([['customers', 'notes'], ['orders'], ['items']]);
+  });
+
+  it('leaves out tables that are not in the order', () => {
+    expect(getReadPasses(['a', 'skipped', 'b'], ['a', 'b'])).toEqual([['a', 'b']]);
+    expect(getReadPasses(['a'], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { ColumnInfo } from '../types/database';
+import { getPrimaryKeyColumns } from './openapi';
+import { parseTableName, qualifyTableName } from './tableName';
+
+// A foreign key column and the table it points to
+export interface ForeignKeyEdge {
+  table: string;
+  column: string;
+  references: string;
+  // Primary key of `table`, which addresses rows when the column is set later
+  keyColumns: string[];
+  // Columns not known to be NOT NULL, of tables with a primary key, can be written empty and set once every table is in
+  deferrable: boolean;
+}
+
+export interface TableOrder {
+  // Every table after the tables it references, as far as cycles allow
+  order: string[];
+  // References written as NULL at first and set after all rows are in: self-references and one side of each cycle
+  deferred: ForeignKeyEdge[];
+}
+
+/**
+ * Collects the foreign keys of the given tables. PostgREST names the
+ * referenced table without a schema, so it is taken to be in the schema of
+ * the referencing table.
+ */
+export const getForeignKeyEdges = (columnsByTable: Record<string, ColumnInfo[] | null | undefined>): ForeignKeyEdge[] =>
+  Object.entries(columnsByTable).flatMap(([table, columns]) => {
+    if (!columns) return [];
+    const { schema } = parseTableName(table);
+    const keyColumns = getPrimaryKeyColumns(columns);
+
+    return columns.flatMap(col => (col.foreign_key ? [{
+      table,
+      column: col.column_name,
+      references: qualifyTableName(schema, col.foreign_key.table),
+      keyColumns,
+      deferrable: col.is_nullable !== 'NO' && keyColumns.length > 0
+    }] : []));
+  });
+
+/**
+ * Orders tables so that referenced tables come first; ties keep the given
+ * order. Self-references are deferred, since a row may point to a later row
+ * of its own table. When only tables that reference each other are left, the
+ * first of them whose open references are all deferrable has them deferred.
+ * A cycle of NOT NULL references cannot be broken and keeps the given order.
+ */
+export const sortTablesByDependencies = (tables: string[], edges: ForeignKeyEdge[]): TableOrder => {
+  const included = new Set(tables);
+  const relevant = edges.filter(edge => included.has(edge.table) && included.has(edge.references));
+  const deferred = relevant.filter(edge => edge.table === edge.references && edge.deferrable);
+  let open = relevant.filter(edge => edge.table !== edge.references);
+
+  const remaining = [...tables];
+  const order: string[] = [];
+  const openEdgesOf = (table: string) => open.filter(edge => edge.table === table && remaining.includes(edge.references));
+
+  while (remaining.length > 0) {
+    let next = remaining.findIndex(table => openEdgesOf(table).length === 0);
+
+    if (next === -1) {
+      next = remaining.findIndex(table => openEdgesOf(table).every(edge => edge.deferrable));
+      if (next === -1) {
+        next = 0;
+      } else {
+        const broken = openEdgesOf(remaining[next]);
+        deferred.push(...broken);
+        open = open.filter(edge => !broken.includes(edge));
+      }
+    }
+
+    order.push(...remaining.splice(next, 1));
+  }
+
+  return { order, deferred };
+};
+
+/**
+ * Splits the tables of a file that can only be read front to back into
+ * passes over it. Each pass takes its tables in file order; a table that
+ * the file holds before a table it has to follow starts the next pass, so a
+ * file already in dependency order is read once. `order` may leave tables
+ * out; they are not read.
+ */
+export const getReadPasses = (fileOrder: string[], order: string[]): string[][] => {
+  const passes: string[][] = [];
+  order.forEach(table => {
+    const pass = passes[passes.length - 1];
+    if (pass && fileOrder.indexOf(pass[pass.length - 1]) < fileOrder.indexOf(table)) {
+      pass.push(table);
+    } else {
+      passes.push([table]);
+    }
+  });
+  return passes;
+};